@@ -5,6 +5,8 @@ export default function AuthLayout() {
         <Stack screenOptions={{ headerShown: false}} initialRouteName="sign-up">
             <Stack.Screen name="sign-up"/>
             <Stack.Screen name="sign-in"/>
+            <Stack.Screen name="forgot-password"/>
+            <Stack.Screen name="passwordless"/>
         </Stack>
     )
 }
\ No newline at end of file
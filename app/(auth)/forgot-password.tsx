@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, Alert } from "react-native";
+import { Link } from "expo-router";
+import { requestPasswordRecovery } from "@/services/appwrite";
+import { useTranslation } from "@/services/i18n";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger("ForgotPassword");
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const { t, describeError } = useTranslation();
+
+  const handleSend = async () => {
+    const address = email.trim();
+    if (!address) {
+      Alert.alert(t("auth.error"), t("auth.enterEmail"));
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      await requestPasswordRecovery(address);
+      log.debug("Recovery email requested");
+      setSentTo(address);
+    } catch (error) {
+      Alert.alert(t("reset.failed"), describeError(error));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <View className="flex-1 bg-primary px-6 justify-center">
+        <Text className="text-white text-3xl font-bold mb-4 text-center">
+          {t("reset.checkEmail")}
+        </Text>
+        <Text className="text-gray-400 text-center mb-8">
+          {t("reset.sentTo", { email: sentTo })}
+        </Text>
+
+        <TouchableOpacity
+          className="bg-gray-800 py-4 rounded-lg"
+          onPress={() => setSentTo(null)}
+        >
+          <Text className="text-white text-center font-semibold">{t("reset.differentEmail")}</Text>
+        </TouchableOpacity>
+
+        <View className="flex-row justify-center items-center mt-6">
+          <Link href="/sign-in" className="text-orange-500 font-semibold">
+            {t("auth.backToSignIn")}
+          </Link>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-primary px-6 justify-center">
+      <Text className="text-white text-3xl font-bold mb-4 text-center">
+        {t("reset.forgotTitle")}
+      </Text>
+      <Text className="text-gray-400 text-center mb-8">
+        {t("reset.forgotIntro")}
+      </Text>
+
+      <View className="space-y-4">
+        <View>
+          <Text className="text-white mb-2">{t("auth.email")}</Text>
+          <TextInput
+            className="bg-gray-800 text-white px-4 py-3 rounded-lg"
+            placeholder={t("auth.emailPlaceholder")}
+            placeholderTextColor="#9CA3AF"
+            value={email}
+            onChangeText={setEmail}
+            keyboardType="email-address"
+            autoCapitalize="none"
+          />
+        </View>
+
+        <TouchableOpacity
+          className="bg-orange-500 py-4 rounded-lg mt-6"
+          onPress={handleSend}
+          disabled={isSending}
+        >
+          <Text className="text-white text-center font-semibold text-lg">
+            {isSending ? t("reset.sending") : t("reset.sendLink")}
+          </Text>
+        </TouchableOpacity>
+
+        <View className="flex-row justify-center items-center mt-6">
+          <Text className="text-gray-400">{t("reset.remembered")}</Text>
+          <Link href="/sign-in" className="text-orange-500 font-semibold">
+            {t("auth.signIn")}
+          </Link>
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, Alert } from "react-native";
+import { Link } from "expo-router";
+import { useAuth } from "@/services/AuthContext";
+import { sendMagicLink, sendSignInCode } from "@/services/appwrite";
+import { isLinkExpired } from "@/services/authLinks";
+import { NotFoundError, UnauthorizedError } from "@/services/errors";
+import { useTranslation } from "@/services/i18n";
+import { formatDate } from "@/services/locale";
+import { createLogger } from "@/services/logger";
+import useCooldown from "@/services/useCooldown";
+
+const log = createLogger("Passwordless");
+
+// Appwrite rejects repeat sends for a while, so hold the resend button back
+const RESEND_COOLDOWN_SECONDS = 60;
+const CODE_LENGTH = 6;
+
+type Method = "code" | "link";
+
+type Step =
+  | { kind: "email" }
+  | { kind: "code", email: string, userId: string, expire: string }
+  | { kind: "link", email: string };
+
+export default function Passwordless() {
+  const { signInWithToken, status } = useAuth();
+  const { t, describeError, locale } = useTranslation();
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [step, setStep] = useState<Step>({ kind: "email" });
+  const [isSending, setIsSending] = useState(false);
+  const [codeError, setCodeError] = useState<string | null>(null);
+  const { remaining: cooldown, start: startCooldown } = useCooldown();
+  const isAuthenticating = status === "authenticating";
+
+  const send = async (method: Method, address: string) => {
+    if (!address) {
+      Alert.alert(t("auth.error"), t("auth.enterEmail"));
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      if (method === "code") {
+        const token = await sendSignInCode(address);
+        setStep({ kind: "code", email: address, userId: token.userId, expire: token.expire });
+      } else {
+        await sendMagicLink(address);
+        setStep({ kind: "link", email: address });
+      }
+      log.debug("Sign-in token sent", { method });
+      setCode("");
+      setCodeError(null);
+      startCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (error) {
+      Alert.alert(t("passwordless.sendFailed"), describeError(error));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (step.kind !== "code") return;
+
+    if (isLinkExpired(step.expire)) {
+      setCodeError(t("passwordless.codeExpired"));
+      return;
+    }
+    if (code.length !== CODE_LENGTH) {
+      setCodeError(t("passwordless.codeLength", { length: CODE_LENGTH }));
+      return;
+    }
+
+    try {
+      setCodeError(null);
+      // The root layout moves on to the tabs once the session is picked up
+      await signInWithToken(step.userId, code);
+    } catch (error) {
+      if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+        setCodeError(isLinkExpired(step.expire)
+          ? t("passwordless.codeExpired")
+          : t("passwordless.codeWrong"));
+      } else {
+        Alert.alert(t("passwordless.signInFailed"), describeError(error));
+      }
+    }
+  };
+
+  const resendLabel = (label: string) => cooldown > 0 ? t("passwordless.resendIn", { label, seconds: cooldown }) : label;
+
+  if (step.kind === "code") {
+    const expiresAt = formatDate(locale, step.expire, { hour: "numeric", minute: "2-digit" });
+
+    return (
+      <View className="flex-1 bg-primary px-6 justify-center">
+        <Text className="text-white text-3xl font-bold mb-4 text-center">
+          {t("passwordless.codeTitle")}
+        </Text>
+        <Text className="text-gray-400 text-center mb-8">
+          {t("passwordless.codeSent", { length: CODE_LENGTH, email: step.email })}
+          {expiresAt && ` ${t("passwordless.codeExpires", { time: expiresAt })}`}
+        </Text>
+
+        <TextInput
+          className="bg-gray-800 text-white px-4 py-3 rounded-lg text-center text-2xl tracking-widest"
+          placeholder="000000"
+          placeholderTextColor="#9CA3AF"
+          value={code}
+          onChangeText={(value) => setCode(value.replace(/\D/g, ""))}
+          keyboardType="number-pad"
+          textContentType="oneTimeCode"
+          autoComplete="one-time-code"
+          maxLength={CODE_LENGTH}
+        />
+        {codeError && (
+          <Text className="text-red-500 text-xs mt-2 text-center">{codeError}</Text>
+        )}
+
+        <TouchableOpacity
+          className="bg-orange-500 py-4 rounded-lg mt-6"
+          onPress={handleVerifyCode}
+          disabled={isAuthenticating}
+        >
+          <Text className="text-white text-center font-semibold text-lg">
+            {isAuthenticating ? t("passwordless.signingIn") : t("auth.signIn")}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          className="py-4 mt-2"
+          onPress={() => send("code", step.email)}
+          disabled={isSending || cooldown > 0}
+        >
+          <Text className={`text-center ${cooldown > 0 ? "text-gray-400" : "text-orange-500 font-semibold"}`}>
+            {resendLabel(t("passwordless.newCode"))}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity onPress={() => setStep({ kind: "email" })}>
+          <Text className="text-gray-400 text-center">{t("reset.differentEmail")}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (step.kind === "link") {
+    return (
+      <View className="flex-1 bg-primary px-6 justify-center">
+        <Text className="text-white text-3xl font-bold mb-4 text-center">
+          {t("passwordless.linkTitle")}
+        </Text>
+        <Text className="text-gray-400 text-center mb-8">
+          {t("passwordless.linkSent", { email: step.email })}
+        </Text>
+
+        <TouchableOpacity
+          className="bg-gray-800 py-4 rounded-lg"
+          onPress={() => send("link", step.email)}
+          disabled={isSending || cooldown > 0}
+        >
+          <Text className={`text-center font-semibold ${cooldown > 0 ? "text-gray-400" : "text-white"}`}>
+            {resendLabel(t("passwordless.anotherLink"))}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity className="mt-6" onPress={() => setStep({ kind: "email" })}>
+          <Text className="text-gray-400 text-center">{t("reset.differentEmail")}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const address = email.trim();
+  const disabled = isSending || cooldown > 0;
+
+  return (
+    <View className="flex-1 bg-primary px-6 justify-center">
+      <Text className="text-white text-3xl font-bold mb-4 text-center">
+        {t("passwordless.title")}
+      </Text>
+      <Text className="text-gray-400 text-center mb-8">
+        {t("passwordless.intro")}
+      </Text>
+
+      <View className="space-y-4">
+        <View>
+          <Text className="text-white mb-2">{t("auth.email")}</Text>
+          <TextInput
+            className="bg-gray-800 text-white px-4 py-3 rounded-lg"
+            placeholder={t("auth.emailPlaceholder")}
+            placeholderTextColor="#9CA3AF"
+            value={email}
+            onChangeText={setEmail}
+            keyboardType="email-address"
+            autoCapitalize="none"
+          />
+        </View>
+
+        <TouchableOpacity
+          className="bg-orange-500 py-4 rounded-lg mt-6"
+          onPress={() => send("code", address)}
+          disabled={disabled}
+        >
+          <Text className="text-white text-center font-semibold text-lg">
+            {isSending ? t("reset.sending") : resendLabel(t("passwordless.emailCode"))}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          className="bg-gray-800 py-4 rounded-lg mt-3"
+          onPress={() => send("link", address)}
+          disabled={disabled}
+        >
+          <Text className="text-white text-center font-semibold text-lg">
+            {resendLabel(t("passwordless.emailLink"))}
+          </Text>
+        </TouchableOpacity>
+
+        <View className="flex-row justify-center items-center mt-6">
+          <Text className="text-gray-400">{t("passwordless.havePassword")}</Text>
+          <Link href="/sign-in" className="text-orange-500 font-semibold">
+            {t("auth.signIn")}
+          </Link>
+        </View>
+      </View>
+    </View>
+  );
+}
@@ -2,12 +2,19 @@ import { useState } from "react";
 import { View, Text, TextInput, TouchableOpacity, Alert } from "react-native";
 import { Link } from "expo-router";
 import { useAuth } from "@/services/AuthContext";
-import GoogleSignInButton from "@/components/GoogleSignInButton";
+import { useTranslation } from "@/services/i18n";
+import OAuthButtons from "@/components/OAuthButtons";
+import { OAuthProviderConfig } from "@/services/oauthProviders";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger("SignIn");
 
 export default function SignIn() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const { signin, signInWithGoogle, isLoading } = useAuth();
+  const { signIn, signInWithOAuth, status } = useAuth();
+  const { describeError } = useTranslation();
+  const isAuthenticating = status === "authenticating";
 
   const handleSignIn = async () => {
     if (!email || !password) {
@@ -16,21 +23,20 @@ export default function SignIn() {
     }
 
     try {
-      await signin(email, password);
-    } catch (error: any) {
-      Alert.alert("Sign In Failed", error.message || "An error occurred");
+      await signIn(email, password);
+    } catch (error) {
+      Alert.alert("Sign In Failed", describeError(error));
     }
   };
 
-  const handleGoogleSignIn = async () => {
-    console.log("Sign-in screen: Google button pressed");
+  const handleOAuthSignIn = async ({ id, branding }: OAuthProviderConfig) => {
+    log.debug("OAuth button pressed", { provider: id });
     try {
-      console.log("Sign-in screen: Calling signInWithGoogle...");
-      await signInWithGoogle();
-      console.log("Sign-in screen: signInWithGoogle completed");
-    } catch (error: any) {
-      console.log("Sign-in screen: Google sign-in error:", error);
-      Alert.alert("Google Sign In Failed", error.message || "An error occurred");
+      await signInWithOAuth(id);
+      log.debug("signInWithOAuth completed");
+    } catch (error) {
+      log.error("OAuth sign-in error", error);
+      Alert.alert(`${branding.label} Sign In Failed`, describeError(error));
     }
   };
 
@@ -40,10 +46,9 @@ export default function SignIn() {
         Sign In
       </Text>
 
-      {/* Google Sign In Button */}
-      <GoogleSignInButton 
-        onPress={handleGoogleSignIn}
-        disabled={isLoading}
+      <OAuthButtons
+        onSelect={handleOAuthSignIn}
+        disabled={isAuthenticating}
       />
 
       {/* Divider */}
@@ -79,16 +84,24 @@ export default function SignIn() {
           />
         </View>
 
+        <Link href="/forgot-password" className="text-orange-500 text-right mt-2">
+          Forgot password?
+        </Link>
+
         <TouchableOpacity
           className="bg-orange-500 py-4 rounded-lg mt-6"
           onPress={handleSignIn}
-          disabled={isLoading}
+          disabled={isAuthenticating}
         >
           <Text className="text-white text-center font-semibold text-lg">
-            {isLoading ? "Signing In..." : "Sign In"}
+            {isAuthenticating ? "Signing In..." : "Sign In"}
           </Text>
         </TouchableOpacity>
 
+        <Link href="/passwordless" className="text-orange-500 text-center font-semibold mt-4">
+          Sign in with an email code or link instead
+        </Link>
+
         <View className="flex-row justify-center items-center mt-6">
           <Text className="text-gray-400">Don't have an account? </Text>
           <Link href="/sign-up" className="text-orange-500 font-semibold">
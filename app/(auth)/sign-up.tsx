@@ -2,14 +2,18 @@ import { useState } from "react";
 import { View, Text, TextInput, TouchableOpacity, Alert } from "react-native";
 import { Link } from "expo-router";
 import { useAuth } from "@/services/AuthContext";
-import GoogleSignInButton from "@/components/GoogleSignInButton";
+import { useTranslation } from "@/services/i18n";
+import OAuthButtons from "@/components/OAuthButtons";
+import { OAuthProviderConfig } from "@/services/oauthProviders";
 
 export default function SignUp() {
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
-  const { signup, signInWithGoogle, isLoading } = useAuth();
+  const { signUp, signInWithOAuth, status } = useAuth();
+  const { describeError } = useTranslation();
+  const isAuthenticating = status === "authenticating";
 
   const handleSignUp = async () => {
     if (!name || !email || !password || !confirmPassword) {
@@ -28,17 +32,17 @@ export default function SignUp() {
     }
 
     try {
-      await signup(email, password, name);
-    } catch (error: any) {
-      Alert.alert("Sign Up Failed", error.message || "An error occurred");
+      await signUp(email, password, name);
+    } catch (error) {
+      Alert.alert("Sign Up Failed", describeError(error));
     }
   };
 
-  const handleGoogleSignIn = async () => {
+  const handleOAuthSignIn = async ({ id, branding }: OAuthProviderConfig) => {
     try {
-      await signInWithGoogle();
-    } catch (error: any) {
-      Alert.alert("Google Sign In Failed", error.message || "An error occurred");
+      await signInWithOAuth(id);
+    } catch (error) {
+      Alert.alert(`${branding.label} Sign In Failed`, describeError(error));
     }
   };
 
@@ -48,10 +52,9 @@ export default function SignUp() {
         Sign Up
       </Text>
 
-      {/* Google Sign In Button */}
-      <GoogleSignInButton 
-        onPress={handleGoogleSignIn}
-        disabled={isLoading}
+      <OAuthButtons
+        onSelect={handleOAuthSignIn}
+        disabled={isAuthenticating}
       />
 
       {/* Divider */}
@@ -113,10 +116,10 @@ export default function SignUp() {
         <TouchableOpacity
           className="bg-orange-500 py-4 rounded-lg mt-6"
           onPress={handleSignUp}
-          disabled={isLoading}
+          disabled={isAuthenticating}
         >
           <Text className="text-white text-center font-semibold text-lg">
-            {isLoading ? "Creating Account..." : "Sign Up"}
+            {isAuthenticating ? "Creating Account..." : "Sign Up"}
           </Text>
         </TouchableOpacity>
 
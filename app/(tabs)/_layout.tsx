@@ -1,5 +1,6 @@
 import { icons } from "@/constants/icons";
 import { images } from "@/constants/images";
+import { useTranslation } from "@/services/i18n";
 import { Tabs } from 'expo-router';
 import React from 'react';
 import { Image, ImageBackground, Text, View } from 'react-native';
@@ -24,7 +25,9 @@ const TabIcon = ( { focused, icon, title} : any) => {
     
 }
 
-const _Layout = () => {
+const TabsLayout = () => {
+  const { t } = useTranslation();
+
   return (
     <Tabs
         screenOptions={{
@@ -51,13 +54,13 @@ const _Layout = () => {
         <Tabs.Screen
             name="index"
             options={{
-                title: 'Home',
+                title: t('tabs.home'),
                 headerShown: false,
                 tabBarIcon: ({ focused })  => (
                     <TabIcon 
                         focused={focused}
                         icon={icons.home} 
-                        title="Home"
+                        title={t('tabs.home')}
                     />
                 )
             }}
@@ -65,13 +68,13 @@ const _Layout = () => {
         <Tabs.Screen
             name="search"
             options={{
-                title: 'Search',
+                title: t('tabs.search'),
                 headerShown: false,
                 tabBarIcon: ({ focused })  => (
                     <TabIcon 
                         focused={focused}
                         icon={icons.search} 
-                        title="Search"
+                        title={t('tabs.search')}
                     />
                 )
             }}
@@ -79,13 +82,13 @@ const _Layout = () => {
         <Tabs.Screen
             name="saved"
             options={{
-                title: 'Saved',
+                title: t('tabs.saved'),
                 headerShown: false,
                 tabBarIcon: ({ focused })  => (
                     <TabIcon 
                         focused={focused}
                         icon={icons.save} 
-                        title="Saved"
+                        title={t('tabs.saved')}
                     />
                 )
             }}
@@ -93,13 +96,13 @@ const _Layout = () => {
         <Tabs.Screen
             name="profile"
             options={{
-                title: 'Profile',
+                title: t('tabs.profile'),
                 headerShown: false,
                 tabBarIcon: ({ focused })  => (
                     <TabIcon 
                         focused={focused}
                         icon={icons.person} 
-                        title="Profile"
+                        title={t('tabs.profile')}
                     />
                 )
             }}
@@ -108,4 +111,4 @@ const _Layout = () => {
   )
 }
 
-export default _Layout
\ No newline at end of file
+export default TabsLayout
\ No newline at end of file
@@ -1,109 +1,223 @@
+import ErrorState from "@/components/ErrorState";
+import MediaTypeToggle from "@/components/MediaTypeToggle";
 import MovieCard from "@/components/MovieCard";
+import OfflineBanner from "@/components/OfflineBanner";
+import PaginationFooter from "@/components/PaginationFooter";
 import SearchBar from "@/components/SearchBar";
 import TrendingCard from "@/components/TrendingCard";
+import TvCard from "@/components/TvCard";
 import { icons } from "@/constants/icons";
 import { images } from "@/constants/images";
-import { fetchMovies } from "@/services/api";
+import { fetchMovies, fetchTvShows } from "@/services/api";
 import { getTrendingMovies } from "@/services/appwrite";
-import useFetch from "@/services/useFetch";
+import { useTranslation } from "@/services/i18n";
+import { isTvShow, mediaTypeOf } from "@/services/media";
+import { DEFAULT_FILTERS } from "@/services/movieFilters";
+import { OFFLINE_TTL } from "@/services/offlineStore";
+import { DEFAULT_TRENDING_WINDOW, TRENDING_WINDOWS } from "@/services/trending";
+import { usePreferences } from "@/services/PreferencesContext";
+import { queryKeys } from "@/services/queryKeys";
+import usePaginatedQuery from "@/services/usePaginatedQuery";
+import useQuery from "@/services/useQuery";
 import { useRouter } from 'expo-router';
-import { ActivityIndicator, FlatList, Image, ScrollView, Text, View } from "react-native";
+import { useState } from "react";
+import { ActivityIndicator, Alert, FlatList, Image, Text, TouchableOpacity, View } from "react-native";
 
 export default function Index() {
   const router = useRouter();
+  const { t, locale } = useTranslation();
+  const [mediaType, setMediaType] = useState<MediaType>('movie');
+  const showingTv = mediaType === 'tv';
+
+  const { myServices } = usePreferences();
+  const [onlyMyServices, setOnlyMyServices] = useState(false);
+  const filters = onlyMyServices && myServices ? { ...DEFAULT_FILTERS, myServices } : DEFAULT_FILTERS;
+
+  const toggleMyServices = () => {
+    if (!myServices) {
+      Alert.alert(t('home.noServicesTitle'), t('home.noServicesMessage'));
+      return;
+    }
+    setOnlyMyServices(!onlyMyServices);
+  };
+
+  const [trendingWindow, setTrendingWindow] = useState<TrendingWindow>(DEFAULT_TRENDING_WINDOW);
 
   const {
     data: trendingMovies,
     loading: trendingLoading,
-    error: trendingError
-  } = useFetch(getTrendingMovies)
+    isOfflineCopy: trendingOffline
+  } = useQuery(
+    queryKeys.trending(trendingWindow),
+    () => getTrendingMovies(trendingWindow),
+    { persist: OFFLINE_TTL.trending }
+  )
 
-  const { 
-    data: movies, 
-    loading: moviesLoading, 
-    error: moviesError 
-  } = useFetch(() => fetchMovies({ 
-    query: ''
-  }))
+  const {
+    items: movies,
+    loading: moviesLoading,
+    loadingMore,
+    isEnd,
+    error: moviesError,
+    loadMoreError,
+    isOfflineCopy: moviesOffline,
+    loadMore,
+    refetch: refetchMovies
+  } = usePaginatedQuery(queryKeys.movies('', filters, locale), (nextPage, signal) => fetchMovies({
+    query: '',
+    page: nextPage,
+    filters,
+    signal
+  }), { enabled: !showingTv, persist: OFFLINE_TTL.movieLists })
+
+  const {
+    items: tvShows,
+    loading: tvLoading,
+    loadingMore: tvLoadingMore,
+    isEnd: tvIsEnd,
+    error: tvError,
+    loadMoreError: tvLoadMoreError,
+    isOfflineCopy: tvOffline,
+    loadMore: loadMoreTv,
+    refetch: refetchTv
+  } = usePaginatedQuery(queryKeys.tvShows('', locale), (nextPage, signal) => fetchTvShows({
+    query: '',
+    page: nextPage,
+    signal
+  }), { enabled: showingTv, persist: OFFLINE_TTL.movieLists })
+
+  // Trending has its own spinner so switching its window doesn't blank the page
+  const isLoading = showingTv ? tvLoading : moviesLoading;
+  // Trending is a nice-to-have; only the main grid failing is worth an error screen
+  const error = showingTv ? tvError : moviesError;
+  const items: (Movie | TvShow)[] = showingTv ? tvShows : movies;
+  const handleEndReached = showingTv ? loadMoreTv : loadMore;
 
   return (
     <View className="flex-1 bg-primary">
         <Image source={images.bg} className="absolute w-full z-0" />
 
-        <ScrollView className="flex-1 px-5" showsVerticalScrollIndicator={false} contentContainerStyle={{minHeight: "100%", paddingBottom: 10}}>
-          <Image source={icons.logo} className="w-12 h-10 mt-20 mb-5 mx-auto" />
-
-          {moviesLoading || trendingLoading? (
-
-            <ActivityIndicator
-              size="large"
-              color="#0000ff"
-              className="mt-10 self-center"
-            />
-
-          ) : moviesError || trendingError? (
-            <Text>Error: {moviesError?.message || trendingError?.message}</Text>
+        <FlatList
+          data={isLoading || error ? [] : items}
+          renderItem={({item}) => isTvShow(item) ? (
+            <TvCard {...item} />
           ) : (
-
-            <View className="flex-1 mt-5">
-              <SearchBar 
-                onPress={() => router.push("/search")}
-                placeholder="Search for a movie"
-              />
-
-              {trendingMovies && (
-                <View className="mt-10">
-                  <Text className="text-lg text-white font-bold mb-3">Trending Movies</Text>
-                </View>
-              )}
-
-              <>
-                
-                <FlatList 
-                  horizontal
-                  showsHorizontalScrollIndicator={false}
-                  ItemSeparatorComponent={() => <View className="w-4" />}
-                  className="mb-4 mt-3"
-                  data={trendingMovies} 
-                  renderItem={({item, index}) => (
-                    <TrendingCard movie={item} index={index}/>
-                  )}
-                  keyExtractor={(item) => item.movie_id.toString()}
+            <MovieCard
+              {...item}
+            />
+          )}
+          keyExtractor={(item) => `${mediaType}-${item.id}`}
+          numColumns={3}
+          columnWrapperStyle={{
+            justifyContent: 'flex-start',
+            gap: 20,
+            paddingRight: 5,
+            marginBottom: 10
+          }}
+          className="flex-1 px-5"
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{minHeight: "100%", paddingBottom: 128}}
+          onEndReached={handleEndReached}
+          onEndReachedThreshold={0.5}
+
+          ListHeaderComponent={
+            <>
+              <Image source={icons.logo} className="w-12 h-10 mt-20 mb-5 mx-auto" />
+
+              <OfflineBanner visible={(showingTv ? tvOffline : moviesOffline) || trendingOffline} />
+
+              {isLoading ? (
+
+                <ActivityIndicator
+                  size="large"
+                  color="#0000ff"
+                  className="mt-10 self-center"
                 />
 
-                
-                <Text className="text-lg text-white font-bold mt-5 mb-3">Latest Movies</Text>
-
-                  <FlatList 
-                    data={movies} 
-                    renderItem={({item}) => (
-                      <MovieCard
-                        {...item}
-                      />
-                    )}
-                      keyExtractor={(item) => item.id.toString()}
-                      numColumns={3}
-                      columnWrapperStyle={{
-                        justifyContent: 'flex-start',
-                        gap: 20,
-                        paddingRight: 5,
-                        marginBottom: 10
-                      }}
-
-                      className="mt-2 pb-32"
-                      scrollEnabled={false}
+              ) : error ? (
+                <ErrorState error={error} onRetry={showingTv ? refetchTv : refetchMovies} className="mt-10" />
+              ) : (
 
+                <View className="flex-1 mt-5">
+                  <SearchBar
+                    onPress={() => router.push("/search")}
+                    placeholder={t('home.searchPlaceholder')}
                   />
 
-              </>
-
-            </View>
-
-          )
+                  <View className="mt-10 flex-row items-center justify-between">
+                    <Text className="text-lg text-white font-bold">{t('home.trending')}</Text>
+                    <View className="flex-row gap-x-2">
+                      {TRENDING_WINDOWS.map(({ value, labelKey }) => (
+                        <TouchableOpacity
+                          key={value}
+                          onPress={() => setTrendingWindow(value)}
+                          accessibilityRole="button"
+                          accessibilityState={{ selected: trendingWindow === value }}
+                          className={`px-3 py-1.5 rounded-full ${trendingWindow === value ? 'bg-accent' : 'bg-dark-100'}`}
+                        >
+                          <Text className={`text-xs font-semibold ${trendingWindow === value ? 'text-primary' : 'text-light-200'}`}>
+                            {t(labelKey)}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+
+                  {trendingLoading ? (
+                    <ActivityIndicator size="small" color="#0000ff" className="my-10 self-center" />
+                  ) : trendingMovies?.length === 0 ? (
+                    <Text className="text-gray-500 text-sm my-5">{t('home.nothingTrending')}</Text>
+                  ) : null}
+
+                  <FlatList
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    ItemSeparatorComponent={() => <View className="w-4" />}
+                    className="mb-4 mt-3"
+                    data={trendingMovies}
+                    renderItem={({item, index}) => (
+                      <TrendingCard movie={item} index={index}/>
+                    )}
+                    keyExtractor={(item) => `${mediaTypeOf(item)}-${item.movie_id}`}
+                  />
 
-        } 
+                  <View className="flex-row items-center justify-between mt-5 mb-3">
+                    <Text className="text-lg text-white font-bold">
+                      {showingTv ? t('home.popularTv') : t('home.latestMovies')}
+                    </Text>
+                    <MediaTypeToggle value={mediaType} onChange={setMediaType} />
+                  </View>
+
+                  {!showingTv && (
+                    <TouchableOpacity
+                      onPress={toggleMyServices}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: !!filters.myServices }}
+                      className={`self-start px-3 py-1.5 rounded-full mb-3 ${filters.myServices ? 'bg-accent' : 'bg-dark-100'}`}
+                    >
+                      <Text className={`text-xs font-semibold ${filters.myServices ? 'text-primary' : 'text-light-200'}`}>
+                        {t('home.onlyMyServices')}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
 
-        </ScrollView>
+              )}
+            </>
+          }
+
+          ListFooterComponent={
+            !isLoading && !error ? (
+              <PaginationFooter
+                loadingMore={showingTv ? tvLoadingMore : loadingMore}
+                isEnd={showingTv ? tvIsEnd : isEnd}
+                endLabel={showingTv ? t('home.noMoreShows') : t('home.noMoreMovies')}
+                error={showingTv ? tvLoadMoreError : loadMoreError}
+                onRetry={handleEndReached}
+              />
+            ) : null
+          }
+        />
     </View>
 
   );
@@ -1,11 +1,20 @@
-import { View, Text, TouchableOpacity, Alert, Image } from 'react-native';
+import { View, Text, TouchableOpacity, Alert, Image, ScrollView } from 'react-native';
 import React from 'react';
+import ConnectedAccounts from '@/components/ConnectedAccounts';
+import LanguagePreference from '@/components/LanguagePreference';
+import StreamingPreferences from '@/components/StreamingPreferences';
+import VerifyEmailBanner from '@/components/VerifyEmailBanner';
+import { useTranslation } from '@/services/i18n';
 import { useAuth } from '../../services/AuthContext';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('Profile');
 
 const Profile = () => {
-  const { user, userProfile, signout } = useAuth();
+  const { user, userProfile, signOut } = useAuth();
+  const { t, describeError } = useTranslation();
 
-  console.log("Profile: User state:", { 
+  log.debug("User state", { 
     user: !!user, 
     email: user?.email, 
     profile: !!userProfile,
@@ -16,25 +25,28 @@ const Profile = () => {
 
   const handleLogout = async () => {
     try {
-      console.log("Profile: Attempting logout...");
-      await signout();
-      console.log("Profile: Logout successful");
+      log.debug("Attempting logout...");
+      await signOut();
+      log.debug("Logout successful");
     } catch (error: any) {
-      console.log("Profile: Logout error:", error);
-      Alert.alert("Logout Failed", error.message);
+      log.error("Logout error", error);
+      Alert.alert(t('profile.logoutFailed'), describeError(error));
     }
   };
 
   return (
-    <View className="bg-primary flex-1 items-center justify-center px-4">
+    <ScrollView
+      className="bg-primary flex-1"
+      contentContainerStyle={{ flexGrow: 1, alignItems: 'center', justifyContent: 'center', paddingHorizontal: 16, paddingTop: 80, paddingBottom: 120 }}
+    >
       {/* Profile Avatar */}
       {userProfile?.avatar ? (
         <Image 
           source={{ uri: userProfile.avatar }} 
           className="w-24 h-24 rounded-full mb-6"
           style={{ borderWidth: 3, borderColor: '#6B7280' }}
-          onError={(error) => console.log("Profile: Image load error:", error.nativeEvent.error)}
-          onLoad={() => console.log("Profile: Image loaded successfully")}
+          onError={(error) => log.error("Image load error", error.nativeEvent.error)}
+          onLoad={() => log.debug("Image loaded successfully")}
         />
       ) : (
         <View className="w-24 h-24 rounded-full bg-secondary mb-6 items-center justify-center">
@@ -46,26 +58,34 @@ const Profile = () => {
 
       {/* Greeting */}
       <Text className="text-white text-2xl font-psemibold mb-2">
-        Hi {userProfile?.name || 'there'}!
+        {userProfile?.name ? t('profile.greeting', { name: userProfile.name }) : t('profile.greetingAnonymous')}
       </Text>
       
       <Text className="text-gray-100 text-lg mb-8 text-center">
-        {userProfile?.email || user?.email || 'No email available'}
+        {userProfile?.email || user?.email || t('profile.noEmail')}
       </Text>
       
       <Text className="text-gray-400 text-sm mb-8">
-        Auth Status: {user ? 'Logged In' : 'Logged Out'}
+        {t('profile.authStatus', { status: user ? t('profile.loggedIn') : t('profile.loggedOut') })}
       </Text>
       
+      <VerifyEmailBanner />
+
+      <LanguagePreference />
+
+      <StreamingPreferences />
+
+      <ConnectedAccounts />
+
       <TouchableOpacity
         onPress={handleLogout}
         className="w-full bg-red-500 rounded-xl min-h-[62px] justify-center items-center"
       >
         <Text className="text-white font-psemibold text-lg">
-          Logout
+          {t('profile.logout')}
         </Text>
       </TouchableOpacity>
-    </View>
+    </ScrollView>
   );
 };
 
@@ -1,16 +1,182 @@
 import { icons } from '@/constants/icons';
-import React from 'react';
-import { Image, Text, View } from 'react-native';
+import { images } from '@/constants/images';
+import { TranslationKey } from '@/constants/translations';
+import { useTranslation } from '@/services/i18n';
+import { mediaHref, mediaTypeOf } from '@/services/media';
+import { useWatchlist } from '@/services/WatchlistContext';
+import { Link } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, Image, Text, TouchableOpacity, View } from 'react-native';
+import Swipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+
+type SortKey = 'added' | 'rating' | 'year';
+
+const SORT_OPTIONS: { key: SortKey; labelKey: TranslationKey }[] = [
+  { key: 'added', labelKey: 'saved.sortAdded' },
+  { key: 'rating', labelKey: 'saved.sortRating' },
+  { key: 'year', labelKey: 'saved.sortYear' },
+];
+
+const releaseYear = (movie: SavedMovie) => parseInt(movie.release_date?.split('-')[0] || '0', 10);
+
+const compareBy: Record<SortKey, (a: SavedMovie, b: SavedMovie) => number> = {
+  added: (a, b) => b.$createdAt.localeCompare(a.$createdAt),
+  rating: (a, b) => b.vote_average - a.vote_average,
+  year: (a, b) => releaseYear(b) - releaseYear(a),
+};
+
+const RemoveAction = ({ onPress }: { onPress: () => void }) => {
+  const { t } = useTranslation();
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      className="bg-red-500 justify-center items-center w-24 rounded-lg my-2"
+    >
+      <Text className="text-white font-semibold">{t('saved.remove')}</Text>
+    </TouchableOpacity>
+  );
+};
+
+interface SavedRowProps {
+  movie: SavedMovie;
+  watched: boolean;
+  onRemove: (movie: SavedMovie) => void;
+  onToggleWatched: (movie: SavedMovie) => void;
+}
+
+const SavedRow = ({ movie, watched, onRemove, onToggleWatched }: SavedRowProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <Swipeable
+      friction={2}
+      rightThreshold={80}
+      renderRightActions={() => <RemoveAction onPress={() => onRemove(movie)} />}
+      onSwipeableOpen={() => onRemove(movie)}
+    >
+      <Link href={mediaHref(mediaTypeOf(movie), movie.movie_id)} asChild>
+        <TouchableOpacity className="flex-row items-center bg-primary py-2">
+          <Image
+            source={{
+              uri: movie.poster_path
+                ? `https://image.tmdb.org/t/p/w500${movie.poster_path}`
+                : 'https://placehold.co/600x400/1a1a1a/ffffff.png'
+            }}
+            className="w-16 h-24 rounded-lg"
+            resizeMode="cover"
+          />
+
+          <View className="flex-1 ml-4">
+            <Text className="text-white font-bold text-base" numberOfLines={2}>{movie.title}</Text>
+            <View className="flex-row items-center gap-x-1 mt-2">
+              <Image source={icons.star} className="size-4" />
+              <Text className="text-white text-xs font-bold">{Math.round(movie.vote_average / 2)}</Text>
+              <Text className="text-light-300 text-xs ml-2">{movie.release_date?.split('-')[0]}</Text>
+              {mediaTypeOf(movie) === 'tv' && (
+                <Text className="text-light-200 text-[10px] font-bold bg-dark-100 rounded px-1.5 py-0.5 ml-2">TV</Text>
+              )}
+            </View>
+          </View>
+
+          <TouchableOpacity
+            onPress={() => onToggleWatched(movie)}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel={watched ? `Mark ${movie.title} as unwatched` : `Mark ${movie.title} as watched`}
+            className={`px-3 py-1.5 rounded-full ml-3 ${watched ? 'bg-accent' : 'bg-dark-100'}`}
+          >
+            <Text className={`text-xs font-semibold ${watched ? 'text-primary' : 'text-light-200'}`}>
+              {watched ? t('saved.watched') : t('saved.markWatched')}
+            </Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Link>
+    </Swipeable>
+  );
+};
 
 const Saved = () => {
+  const { savedMovies, isLoading, removeSaved, isWatched, toggleWatched } = useWatchlist();
+  const [sortKey, setSortKey] = useState<SortKey>('added');
+  const { t, describeError } = useTranslation();
+
+  const sortedMovies = useMemo(
+    () => [...savedMovies].sort(compareBy[sortKey]),
+    [savedMovies, sortKey]
+  );
+
+  const handleRemove = async (movie: SavedMovie) => {
+    try {
+      await removeSaved(movie.movie_id, mediaTypeOf(movie));
+    } catch (error) {
+      Alert.alert(t('saved.removeFailed'), describeError(error));
+    }
+  };
+
+  const handleToggleWatched = async (movie: SavedMovie) => {
+    try {
+      await toggleWatched({
+        id: movie.movie_id,
+        media_type: mediaTypeOf(movie),
+        title: movie.title,
+        poster_path: movie.poster_path,
+        vote_average: movie.vote_average,
+        release_date: movie.release_date
+      });
+    } catch (error) {
+      Alert.alert(t('saved.watchedFailed'), describeError(error));
+    }
+  };
+
   return (
-    <View className="bg-primary flex-1 px-10">
-        <View className="flex justify-center items-center flex-1 flex-col gap-5">
-          <Image source={icons.save} className="size-10" tintColor="#fff" />
-          <Text className="text-gray-500 text-base">Saved</Text>
-        </View>
+    <View className="bg-primary flex-1">
+      <Image source={images.bg} className="absolute w-full z-0" />
+
+      <FlatList
+        data={sortedMovies}
+        keyExtractor={(item) => `${mediaTypeOf(item)}-${item.movie_id}`}
+        renderItem={({ item }) => <SavedRow movie={item} watched={isWatched(item.movie_id, mediaTypeOf(item))} onRemove={handleRemove} onToggleWatched={handleToggleWatched} />}
+        className="px-5"
+        contentContainerStyle={{ paddingBottom: 120, flexGrow: 1 }}
+        ListHeaderComponent={
+          <>
+            <View className="w-full flex-row justify-center mt-20 items-center">
+              <Image source={icons.logo} className="w-12 h-10" />
+            </View>
+
+            <Text className="text-lg text-white font-bold mt-10 mb-3">{t('saved.title')}</Text>
+
+            <View className="flex-row gap-x-2 mb-3">
+              {SORT_OPTIONS.map(({ key, labelKey }) => (
+                <TouchableOpacity
+                  key={key}
+                  onPress={() => setSortKey(key)}
+                  className={`px-3 py-1.5 rounded-full ${sortKey === key ? 'bg-accent' : 'bg-dark-100'}`}
+                >
+                  <Text className={`text-xs font-semibold ${sortKey === key ? 'text-primary' : 'text-light-200'}`}>
+                    {t(labelKey)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {isLoading && savedMovies.length === 0 && (
+              <ActivityIndicator size="large" color="#0000ff" className="my-3" />
+            )}
+          </>
+        }
+        ListEmptyComponent={
+          !isLoading ? (
+            <View className="flex justify-center items-center flex-1 flex-col gap-5 mt-10">
+              <Image source={icons.save} className="size-10" tintColor="#fff" />
+              <Text className="text-gray-500 text-base">{t('saved.empty')}</Text>
+            </View>
+          ) : null
+        }
+      />
     </View>
   )
 }
 
-export default Saved
\ No newline at end of file
+export default Saved
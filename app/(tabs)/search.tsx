@@ -1,56 +1,164 @@
+import ErrorState from '@/components/ErrorState'
+import FilterChips from '@/components/FilterChips'
+import FilterSheet from '@/components/FilterSheet'
+import MediaTypeToggle from '@/components/MediaTypeToggle'
 import MovieCard from '@/components/MovieCard'
+import OfflineBanner from '@/components/OfflineBanner'
+import PersonCard from '@/components/PersonCard'
+import PaginationFooter from '@/components/PaginationFooter'
+import RecentSearches from '@/components/RecentSearches'
 import SearchBar from '@/components/SearchBar'
+import SearchSuggestions from '@/components/SearchSuggestions'
+import TvCard from '@/components/TvCard'
 import { icons } from '@/constants/icons'
 import { images } from '@/constants/images'
-import { fetchMovies } from '@/services/api'
-import { updateSearchCount } from '@/services/appwrite'
-import useFetch from '@/services/useFetch'
-import React, { useEffect, useState } from 'react'
-import { ActivityIndicator, FlatList, Image, Text, View } from 'react-native'
+import { fetchGenres, fetchMovies, fetchTvShows, searchPeople } from '@/services/api'
+import { getPopularSearchTerms, updateSearchCount } from '@/services/appwrite'
+import { useAuth } from '@/services/AuthContext'
+import { useTranslation } from '@/services/i18n'
+import { createLogger } from '@/services/logger'
+import { isTvShow, parseMediaType } from '@/services/media'
+import { describeActiveFilters, filtersFromParams, filtersToParams, hasActiveFilters, sortMovies } from '@/services/movieFilters'
+import { OFFLINE_TTL } from '@/services/offlineStore'
+import { usePreferences } from '@/services/PreferencesContext'
+import { invalidateQueries } from '@/services/queryCache'
+import { queryKeys } from '@/services/queryKeys'
+import { buildSuggestions } from '@/services/recentSearches'
+import { normalizeSearchTerm } from '@/services/trending'
+import usePaginatedQuery from '@/services/usePaginatedQuery'
+import useQuery from '@/services/useQuery'
+import useRecentSearches from '@/services/useRecentSearches'
+import useSearchController, { useCommitWhenSettled } from '@/services/useSearchController'
+import { router, useLocalSearchParams } from 'expo-router'
+import React, { useEffect, useMemo, useState } from 'react'
+import { ActivityIndicator, FlatList, Image, Text, TouchableOpacity, View } from 'react-native'
+
+// Text searches filter on the client, so a page can come back empty even though
+// later pages have matches; follow a few of those before giving up
+const MAX_EMPTY_PAGES = 5
+
+const MAX_SUGGESTIONS = 5
+
+const log = createLogger('Search')
 
 
 const Search = () => {
 
-  const [searchQuery, setSearchQuery] = useState('')
+  const params = useLocalSearchParams<Record<string, string>>()
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false)
+  const mediaType = parseMediaType(params.type)
+  const showingTv = mediaType === 'tv'
 
-  const { 
-    data: movies, 
-    loading, 
-    error,
-    refetch: loadMovies,
-    reset,
-  } = useFetch(() => fetchMovies({ 
-    query: searchQuery
-  }), false)
+  const { user, emailVerified } = useAuth()
+  const { t, locale } = useTranslation()
+  const { myServices } = usePreferences()
+  const { searches: recentSearches, addSearch, removeSearch, clearSearches } = useRecentSearches()
 
-  useEffect(() => {
+  // A search only counts once the user opens a result or stops on one
+  const search = useSearchController<Movie | TvShow>({
+    initialQuery: params.q ?? '',
+    onCommit: (query, result) => {
+      addSearch(query)
+
+      // Trending is shared, so only verified accounts add to it
+      if (!user || !emailVerified) return
+      updateSearchCount(query, result, user)
+        .then(() => invalidateQueries(queryKeys.allTrending()))
+        .catch((error) => log.warn('Search not counted toward trending', error))
+    }
+  })
+  const { input: searchQuery, query: debouncedQuery } = search
+
+  const { data: popularTerms } = useQuery(
+    queryKeys.searchSuggestions(normalizeSearchTerm(debouncedQuery)),
+    () => getPopularSearchTerms(debouncedQuery),
+    { enabled: debouncedQuery.length >= 2 }
+  )
+  const suggestions = buildSuggestions(searchQuery, recentSearches, popularTerms ?? [], MAX_SUGGESTIONS)
+
+  // Filters live in the route params so a filtered search can be shared or restored
+  const filtersKey = JSON.stringify(filtersToParams(filtersFromParams(params, myServices)))
+  const filters = useMemo(() => filtersFromParams(JSON.parse(filtersKey), myServices), [filtersKey, myServices])
+  const filtersActive = hasActiveFilters(filters)
 
-    const timeoutId = setTimeout(async() => {
-      if(searchQuery.trim()){
-        await loadMovies()
-      } else {
-        reset()
-      }
-    }, 500)
+  const { data: genres } = useQuery(queryKeys.genres(locale), fetchGenres)
+  const filterChips = describeActiveFilters(filters, t, genres ?? [])
 
-    return () => clearTimeout(timeoutId)
+  const applyFilters = (nextFilters: MovieFilters) => {
+    router.setParams(filtersToParams(nextFilters))
+  }
 
-  }, [searchQuery])
+  const movieResults = usePaginatedQuery(
+    queryKeys.movies(debouncedQuery, filters, locale),
+    (nextPage, signal) => fetchMovies({ 
+      query: debouncedQuery,
+      page: nextPage,
+      filters,
+      signal
+    }),
+    { enabled: !showingTv && (!!debouncedQuery || filtersActive), persist: OFFLINE_TTL.movieLists }
+  )
+
+  // TMDB's TV search has no discover-style filters, so TV mode is text search only
+  const tvResults = usePaginatedQuery(
+    queryKeys.tvShows(debouncedQuery, locale),
+    (nextPage, signal) => fetchTvShows({
+      query: debouncedQuery,
+      page: nextPage,
+      signal
+    }),
+    { enabled: showingTv && !!debouncedQuery, persist: OFFLINE_TTL.movieLists }
+  )
+
+  const {
+    page,
+    loading,
+    loadingMore,
+    isEnd,
+    hasMore,
+    error,
+    loadMoreError,
+    isOfflineCopy,
+    loadMore,
+    refetch,
+  } = showingTv ? tvResults : movieResults
+  // Discover results come sorted by TMDB; text searches are sorted here, over
+  // every page so far, so later pages don't restart the order
+  const sortedMovies = useMemo(
+    () => debouncedQuery ? sortMovies(movieResults.items, filters.sortBy) : movieResults.items,
+    [debouncedQuery, movieResults.items, filters.sortBy]
+  )
+  const results: (Movie | TvShow)[] = showingTv ? tvResults.items : sortedMovies
+
+  const { data: people } = useQuery(
+    queryKeys.peopleSearch(debouncedQuery, locale),
+    (signal) => searchPeople({ query: debouncedQuery, signal }),
+    { enabled: !!debouncedQuery }
+  )
+  const matchingPeople = debouncedQuery ? (people ?? []).filter((person) => person.profile_path).slice(0, 10) : []
 
   useEffect(() => {
-    if (movies?.length > 0 && movies?.[0]) {
-          updateSearchCount(searchQuery, movies[0])
+    router.setParams({ q: debouncedQuery || undefined })
+  }, [debouncedQuery])
+
+  useCommitWhenSettled(search, loading ? undefined : results[0])
+
+  useEffect(() => {
+    if (!showingTv && results.length === 0 && page > 0 && page < MAX_EMPTY_PAGES && hasMore && !loading && !loadingMore) {
+      loadMore()
     }
-  }, [movies])
+  }, [showingTv, results.length, page, hasMore, loading, loadingMore, loadMore])
   
   return (
     <View className="flex-1 bg-primary">
       <Image source={images.bg} className="flex-1 absolute w-full z-0" resizeMode="cover" />
 
       <FlatList 
-        data={movies} 
-        renderItem={({item}) => <MovieCard {...item} /> }
-        keyExtractor={(item) => item.id.toString()}
+        data={results} 
+        renderItem={({item}) => isTvShow(item)
+          ? <TvCard {...item} onPress={() => search.openResult(item)} />
+          : <MovieCard {...item} onPress={() => search.openResult(item)} /> }
+        keyExtractor={(item) => `${mediaType}-${item.id}`}
         className="px-5"
         numColumns={3}
         columnWrapperStyle={{
@@ -59,50 +167,137 @@ const Search = () => {
           marginVertical: 16
         }}
         contentContainerStyle={{ paddingBottom: 100}}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
 
         ListHeaderComponent={
           <>
             <View className="w-full flex-row justify-center mt-20 items-center">
               <Image source={icons.logo} className="w-12 h-10" />
             </View>
-            <View className="my-5">
-              <SearchBar 
-                placeholder="Search movies..."
-                value={searchQuery}
-                onChangeText={(text: string) => setSearchQuery(text)}
-              />
+            <View className="my-5 flex-row items-center">
+              <View className="flex-1">
+                <SearchBar 
+                  placeholder={showingTv ? t('search.tvPlaceholder') : t('search.moviesPlaceholder')}
+                  value={searchQuery}
+                  onChangeText={search.setInput}
+                />
+              </View>
+              {!showingTv && (
+                <TouchableOpacity
+                  onPress={() => setFilterSheetVisible(true)}
+                  accessibilityLabel={t('search.openFilters')}
+                  className={`ml-3 rounded-full px-4 py-4 ${filtersActive ? 'bg-accent' : 'bg-dark-200'}`}
+                >
+                  <Text className={`text-xs font-bold ${filtersActive ? 'text-primary' : 'text-light-200'}`}>
+                    {filterChips.length > 0 ? t('search.filtersCount', { count: filterChips.length }) : t('search.filters')}
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
 
+            <MediaTypeToggle
+              value={mediaType}
+              onChange={(next) => router.setParams({ type: next === 'tv' ? 'tv' : undefined })}
+              className="mb-4"
+            />
+
+            <OfflineBanner visible={isOfflineCopy} />
+
+            {searchQuery.trim() ? (
+              <SearchSuggestions suggestions={suggestions} onSelect={search.submit} />
+            ) : (
+              <RecentSearches
+                searches={recentSearches}
+                onSelect={search.submit}
+                onRemove={removeSearch}
+                onClearAll={clearSearches}
+              />
+            )}
+
+            {!showingTv && (
+              <FilterChips
+                chips={filterChips}
+                onRemove={(chip) => applyFilters(chip.remove(filters))}
+                onClearAll={() => applyFilters(filtersFromParams({}))}
+              />
+            )}
+
             {loading && (
               <ActivityIndicator size="large" color="#0000ff" className="my-3"/>
             )}
 
             {error && (
-              <Text className="text-red-500 px-5 my-3">
-                Error: {error.message}
-              </Text>
+              <ErrorState error={error} onRetry={refetch} className="px-5 my-3" />
+            )}
+
+            {matchingPeople.length > 0 && (
+              <View className="mb-5">
+                <Text className="text-lg text-white font-bold mb-3">{t('search.people')}</Text>
+                <FlatList
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  data={matchingPeople}
+                  keyExtractor={(item) => item.id.toString()}
+                  renderItem={({ item }) => (
+                    <PersonCard
+                      id={item.id}
+                      name={item.name}
+                      subtitle={item.known_for_department}
+                      profile_path={item.profile_path}
+                    />
+                  )}
+                  ItemSeparatorComponent={() => <View className="w-3" />}
+                />
+              </View>
             )}
 
-            {!loading && !error && searchQuery.trim() && movies?.length > 0 && (
+            {!loading && !error && !!debouncedQuery && results.length > 0 && (
               <Text className="text-xl text-white font-bold">
-                Search Results for {''}
-                <Text className='text-accent'>{searchQuery}</Text>
+                {t('search.resultsFor')}
+                <Text className='text-accent'>{debouncedQuery}</Text>
               </Text>
             )}
           </>
         }
 
+        ListFooterComponent={
+          results.length > 0 ? (
+            <PaginationFooter
+              loadingMore={loadingMore}
+              isEnd={isEnd}
+              endLabel={t('search.endOfResults')}
+              error={loadMoreError}
+              onRetry={loadMore}
+            />
+          ) : null
+        }
+
         ListEmptyComponent={
           !loading && !error ? (
             <View className="mt-10 px-5">
               <Text className="text-center text-gray-500">
-                {searchQuery.trim() ? 'No movies found' : 'Search for a movie'}
+                {showingTv
+                  ? (debouncedQuery ? t('search.noShows') : t('search.promptTv'))
+                  : (debouncedQuery || filtersActive ? t('search.noMovies') : t('search.promptMovie'))}
               </Text>
             </View>
 
           ) : null
         }
       />
+
+      <FilterSheet
+        visible={filterSheetVisible}
+        filters={filters}
+        genres={genres ?? []}
+        myServices={myServices}
+        onApply={(nextFilters) => {
+          setFilterSheetVisible(false)
+          applyFilters(nextFilters)
+        }}
+        onClose={() => setFilterSheetVisible(false)}
+      />
     </View>
   )
 }
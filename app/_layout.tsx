@@ -1,33 +1,58 @@
 import { useEffect } from "react";
 import { AuthProvider, useAuth } from "@/services/AuthContext";
-import { Stack, SplashScreen, Redirect } from "expo-router";
+import { useTranslation } from "@/services/i18n";
+import { PreferencesProvider } from "@/services/PreferencesContext";
+import { WatchlistProvider } from "@/services/WatchlistContext";
+import { Stack, SplashScreen, router, useSegments } from "expo-router";
 import { StatusBar, Text, View } from "react-native";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
+import { createLogger } from "@/services/logger";
 import './globals.css';
 
+const log = createLogger("RootLayout");
+
 // Prevent the splash screen from auto-hiding
 SplashScreen.preventAutoHideAsync();
 
 function RootLayoutNav() {
-  const { user, isLoading } = useAuth();
+  const { status } = useAuth();
+  const segments = useSegments();
+  const { t } = useTranslation();
 
-  console.log("RootLayout: Current state:", { isLoading, hasUser: !!user, userEmail: user?.email });
+  log.debug("Current state", { status });
 
   useEffect(() => {
-    if (!isLoading) {
+    if (status !== 'initializing') {
       SplashScreen.hideAsync();
     }
-  }, [isLoading]);
+  }, [status]);
+
+  // Move the user across the auth boundary when the state changes under them,
+  // e.g. after signing in from (auth) or signing out from (tabs)
+  useEffect(() => {
+    const group = segments[0];
+
+    if ((status === 'signedIn' || status === 'refreshing') && group === '(auth)') {
+      log.debug("Signed in, leaving auth screens");
+      router.replace('/(tabs)');
+    } else if (status === 'signedOut' && group === '(tabs)') {
+      log.debug("Signed out, returning to sign in");
+      router.replace('/(auth)/sign-in');
+    }
+  }, [status, segments]);
 
-  if (isLoading) {
-    console.log("RootLayout: Showing loading screen");
+  // Only the startup check blocks the app; sign-in and refreshes are shown by
+  // the screens that started them
+  if (status === 'initializing') {
+    log.debug("Showing loading screen");
     return (
       <View className="flex-1 justify-center items-center bg-primary">
-        <Text className="text-white">Loading...</Text>
+        <Text className="text-white">{t('common.loading')}</Text>
       </View>
     );
   }
 
-  console.log("RootLayout: Rendering stack with all screens");
+  log.debug("Rendering stack with all screens");
 
   return (
     <>
@@ -37,9 +62,15 @@ function RootLayoutNav() {
         <Stack.Screen name="(tabs)" />
         <Stack.Screen name="(auth)" />
         <Stack.Screen name="movies/[id]" />
+        <Stack.Screen name="tv/[id]" />
+        <Stack.Screen name="collections/[id]" />
+        <Stack.Screen name="people/[id]" />
         <Stack.Screen name="oauth" />
         <Stack.Screen name="oauth/success" />
         <Stack.Screen name="oauth/failure" />
+        <Stack.Screen name="reset-password" />
+        <Stack.Screen name="verify-email" />
+        <Stack.Screen name="magic-link" />
       </Stack>
     </>
   );
@@ -47,8 +78,14 @@ function RootLayoutNav() {
 
 export default function RootLayout() {
   return (
-    <AuthProvider>
-      <RootLayoutNav />
-    </AuthProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <AuthProvider>
+        <PreferencesProvider>
+          <WatchlistProvider>
+            <RootLayoutNav />
+          </WatchlistProvider>
+        </PreferencesProvider>
+      </AuthProvider>
+    </GestureHandlerRootView>
   );
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+import ErrorState from '@/components/ErrorState'
+import OfflineBanner from '@/components/OfflineBanner'
+import { icons } from '@/constants/icons'
+import { fetchCollection } from '@/services/api'
+import { useAuth } from '@/services/AuthContext'
+import { useTranslation } from '@/services/i18n'
+import { OFFLINE_TTL } from '@/services/offlineStore'
+import { queryKeys } from '@/services/queryKeys'
+import useQuery from '@/services/useQuery'
+import { useWatchlist } from '@/services/WatchlistContext'
+import { Link, router, useLocalSearchParams } from 'expo-router'
+import React, { useMemo } from 'react'
+import { ActivityIndicator, Image, ScrollView, Text, TouchableOpacity, View } from 'react-native'
+
+// Unreleased parts have no date yet, so they go after everything that has one
+const byReleaseDate = (a: Movie, b: Movie) => {
+  if (!a.release_date) return b.release_date ? 1 : 0
+  if (!b.release_date) return -1
+  return a.release_date.localeCompare(b.release_date)
+}
+
+const StatusBadge = ({ label, highlighted = false }: { label: string, highlighted?: boolean }) => (
+  <View className={`px-2 py-0.5 rounded-full mr-2 ${highlighted ? 'bg-accent' : 'bg-dark-100'}`}>
+    <Text className={`text-[10px] font-bold ${highlighted ? 'text-primary' : 'text-light-200'}`}>{label}</Text>
+  </View>
+)
+
+interface PartRowProps {
+  movie: Movie
+  position: number
+  current: boolean
+  status: 'watched' | 'saved' | null
+}
+
+const PartRow = ({ movie, position, current, status }: PartRowProps) => {
+  const { t } = useTranslation()
+
+  return (
+    <Link href={`/movies/${movie.id}`} push asChild>
+      <TouchableOpacity className={`flex-row items-center p-2 mt-2 rounded-lg ${current ? 'bg-dark-100 border border-accent' : ''}`}>
+        <Text className="text-light-300 font-bold text-base w-6">{position}</Text>
+        <Image
+          source={{
+            uri: movie.poster_path
+              ? `https://image.tmdb.org/t/p/w185${movie.poster_path}`
+              : 'https://placehold.co/185x278/1a1a1a/ffffff.png'
+          }}
+          className="w-14 h-20 rounded-md"
+          resizeMode="cover"
+        />
+        <View className="flex-1 ml-3">
+          <Text className="text-white font-bold text-sm" numberOfLines={2}>{movie.title}</Text>
+          <Text className="text-light-300 text-xs mt-1">{movie.release_date?.split('-')[0] || t('collection.tba')}</Text>
+          <View className="flex-row mt-2">
+            {current && <StatusBadge label={t('collection.viewing')} highlighted />}
+            {status === 'watched' && <StatusBadge label={t('collection.watched')} />}
+            {status === 'saved' && <StatusBadge label={t('collection.onWatchlist')} />}
+          </View>
+        </View>
+      </TouchableOpacity>
+    </Link>
+  )
+}
+
+const CollectionDetails = () => {
+  const { id, current } = useLocalSearchParams<{ id: string, current?: string }>()
+  const currentId = current ? Number(current) : null
+
+  const { user } = useAuth()
+  const { t, locale } = useTranslation()
+  const { isSaved, isWatched } = useWatchlist()
+
+  const { data: collection, loading, error, isOfflineCopy, refetch } = useQuery(
+    queryKeys.collection(id, locale),
+    (signal) => fetchCollection(id, signal),
+    { persist: OFFLINE_TTL.movieDetails }
+  )
+
+  const parts = useMemo(() => [...(collection?.parts ?? [])].sort(byReleaseDate), [collection])
+
+  const statusOf = (movie: Movie) => {
+    if (!user) return null
+    if (isWatched(movie.id)) return 'watched'
+    return isSaved(movie.id) ? 'saved' : null
+  }
+
+  return (
+    <View className="bg-primary flex-1">
+      {loading ? (
+        <ActivityIndicator size="large" color="#0000ff" className="flex-1 self-center" />
+      ) : !collection && error ? (
+        <ErrorState error={error} onRetry={refetch} className="px-5 mt-20" />
+      ) : (
+        <ScrollView contentContainerStyle={{ paddingBottom: 80 }}>
+          <Image
+            source={{
+              uri: collection?.backdrop_path
+                ? `https://image.tmdb.org/t/p/w780${collection.backdrop_path}`
+                : 'https://placehold.co/780x439/1a1a1a/ffffff.png'
+            }}
+            className="w-full h-56"
+            resizeMode="cover"
+          />
+
+          <View className="px-5 mt-5">
+            <OfflineBanner visible={isOfflineCopy} />
+            <Text className="text-white font-bold text-xl">{collection?.name}</Text>
+            <Text className="text-light-200 text-sm mt-1">
+              {parts.length === 1 ? t('collection.movieCountOne') : t('collection.movieCount', { count: parts.length })}
+            </Text>
+
+            {!!collection?.overview && (
+              <Text className="text-light-100 text-sm mt-4">{collection.overview}</Text>
+            )}
+
+            <Text className="text-lg text-white font-bold mt-8">{t('collection.releaseOrder')}</Text>
+
+            {parts.map((movie, index) => (
+              <PartRow
+                key={movie.id}
+                movie={movie}
+                position={index + 1}
+                current={movie.id === currentId}
+                status={statusOf(movie)}
+              />
+            ))}
+          </View>
+        </ScrollView>
+      )}
+
+      <TouchableOpacity className="absolute bottom-5 left-0 right-0 mx-5 bg-accent rounded-lg py-3.5 flex flex-row items-center justify-center z-50" onPress={router.back}>
+        <Image source={icons.arrow} className='size-5 mr-1 mt-0.5 rotate-180' tintColor='#fff' />
+        <Text className ="text-white font-semibold text-base">{t('common.goBack')}</Text>
+      </TouchableOpacity>
+    </View>
+  )
+}
+
+export default CollectionDetails
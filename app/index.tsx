@@ -1,27 +1,41 @@
-import { useEffect } from "react";
 import { View, Text } from "react-native";
 import { Redirect } from "expo-router";
+import ErrorState from "@/components/ErrorState";
 import { useAuth } from "@/services/AuthContext";
+import { useTranslation } from "@/services/i18n";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger("Index");
 
 export default function Index() {
-  const { user, isLoading } = useAuth();
+  const { state, refreshAuthState } = useAuth();
+  const { t } = useTranslation();
 
-  console.log("Index: Auth state:", { isLoading, hasUser: !!user, userEmail: user?.email });
+  log.debug("Auth state", { status: state.status });
 
-  if (isLoading) {
-    console.log("Index: Still loading, showing loading screen");
-    return (
-      <View className="flex-1 justify-center items-center bg-primary">
-        <Text className="text-white">Loading...</Text>
-      </View>
-    );
-  }
+  switch (state.status) {
+    case 'signedIn':
+    case 'refreshing':
+      log.debug("User authenticated, redirecting to tabs");
+      return <Redirect href="/(tabs)" />;
+
+    case 'signedOut':
+      log.debug("User not authenticated, redirecting to auth");
+      return <Redirect href="/(auth)/sign-up" />;
+
+    case 'error':
+      return (
+        <View className="flex-1 justify-center items-center bg-primary px-6">
+          <ErrorState error={state.error} onRetry={() => refreshAuthState().catch(() => {})} />
+        </View>
+      );
 
-  if (user) {
-    console.log("Index: User authenticated, redirecting to tabs");
-    return <Redirect href="/(tabs)" />;
-  } else {
-    console.log("Index: User not authenticated, redirecting to auth");
-    return <Redirect href="/(auth)/sign-up" />;
+    default:
+      log.debug("Still loading, showing loading screen");
+      return (
+        <View className="flex-1 justify-center items-center bg-primary">
+          <Text className="text-white">{t('common.loading')}</Text>
+        </View>
+      );
   }
-}
\ No newline at end of file
+}
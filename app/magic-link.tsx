@@ -0,0 +1,88 @@
+import { useEffect, useRef, useState } from "react";
+import { View, Text, TouchableOpacity, ActivityIndicator } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { TranslationKey } from "@/constants/translations";
+import { useAuth } from "@/services/AuthContext";
+import { isLinkExpired } from "@/services/authLinks";
+import { NotFoundError, UnauthorizedError } from "@/services/errors";
+import { useTranslation } from "@/services/i18n";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger("MagicLink");
+
+type LinkProblem = "invalid" | "expired" | "failed";
+
+const LINK_PROBLEMS: Record<LinkProblem, { titleKey: TranslationKey, messageKey: TranslationKey }> = {
+  invalid: { titleKey: "magicLink.invalidTitle", messageKey: "magicLink.invalidMessage" },
+  expired: { titleKey: "magicLink.expiredTitle", messageKey: "magicLink.expiredMessage" },
+  failed: { titleKey: "magicLink.failedTitle", messageKey: "magicLink.failedMessage" },
+};
+
+// Opened from the magic link email, e.g. <scheme>://magic-link?userId=...&secret=...&expire=...
+export default function MagicLink() {
+  const { userId, secret, expire } = useLocalSearchParams<{ userId?: string, secret?: string, expire?: string }>();
+  const { status, signInWithToken } = useAuth();
+  const { t } = useTranslation();
+  const [problem, setProblem] = useState<LinkProblem | null>(null);
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    // Let the startup session check finish first, so the two don't race
+    if (status === "initializing" || attempted.current) return;
+    attempted.current = true;
+
+    if (status === "signedIn" || status === "refreshing") {
+      router.replace("/(tabs)");
+      return;
+    }
+    if (!userId || !secret) {
+      setProblem("invalid");
+      return;
+    }
+    if (isLinkExpired(expire)) {
+      setProblem("expired");
+      return;
+    }
+
+    const complete = async () => {
+      try {
+        await signInWithToken(userId, secret);
+        log.debug("Signed in from magic link");
+        router.replace("/(tabs)");
+      } catch (error) {
+        if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+          setProblem(isLinkExpired(expire) ? "expired" : "invalid");
+        } else {
+          setProblem("failed");
+        }
+      }
+    };
+
+    complete();
+  }, [status, userId, secret, expire, signInWithToken]);
+
+  if (!problem) {
+    return (
+      <View className="flex-1 justify-center items-center bg-primary">
+        <ActivityIndicator size="large" color="#0000ff" />
+        <Text className="text-white text-lg mt-4">{t("magicLink.signingIn")}</Text>
+      </View>
+    );
+  }
+
+  const { titleKey, messageKey } = LINK_PROBLEMS[problem];
+
+  return (
+    <View className="flex-1 bg-primary px-6 justify-center">
+      <Text className="text-white text-3xl font-bold mb-4 text-center">{t(titleKey)}</Text>
+      <Text className="text-gray-400 text-center mb-8">{t(messageKey)}</Text>
+
+      <TouchableOpacity
+        className="bg-orange-500 py-4 rounded-lg"
+        onPress={() => router.replace("/(auth)/passwordless")}
+      >
+        <Text className="text-white text-center font-semibold text-lg">{t("magicLink.sendNew")}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -1,81 +1,201 @@
+import CastRow from '@/components/CastRow'
+import CollectionBanner from '@/components/CollectionBanner'
+import ErrorState from '@/components/ErrorState'
+import KeyCrew from '@/components/KeyCrew'
+import MovieRail from '@/components/MovieRail'
+import OfflineBanner from '@/components/OfflineBanner'
+import ReviewList from '@/components/ReviewList'
+import SaveButton from '@/components/SaveButton'
+import TrailerModal from '@/components/TrailerModal'
+import VideoList from '@/components/VideoList'
+import WatchProviders from '@/components/WatchProviders'
+import YourRating from '@/components/YourRating'
 import { icons } from '@/constants/icons'
-import { fetchMovieDetails } from '@/services/api'
-import useFetch from '@/services/useFetch'
+import { fetchMovieDetails, fetchMovieVideos, fetchRecommendedMovies, fetchSimilarMovies, fetchWatchProviders } from '@/services/api'
+import { getMovieReviews, getRatingSummary } from '@/services/appwrite'
+import { useTranslation } from '@/services/i18n'
+import { formatCurrency, formatDate, languageOf } from '@/services/locale'
+import { OFFLINE_TTL } from '@/services/offlineStore'
+import { usePreferences } from '@/services/PreferencesContext'
+import { queryKeys } from '@/services/queryKeys'
+import useQuery from '@/services/useQuery'
+import { rankVideos } from '@/services/videos'
 import { router, useLocalSearchParams } from 'expo-router'
-import React from 'react'
-import { Image, ScrollView, Text, TouchableOpacity, View } from 'react-native'
+import React, { useMemo, useState } from 'react'
+import { ActivityIndicator, Image, ScrollView, Text, TouchableOpacity, View } from 'react-native'
 
 interface MovieInfoProps {
   label: string
   value?: string | number | null
 }
 
-const MovieInfo = ({label, value}: MovieInfoProps) => (
-  <View className="flex-col items-start justify-center mt-5">
-    <Text className="text-light-200 font-normal text-sm">
-      {label}
-    </Text>
-    <Text className="text-light-100 font-bold text-sm mt-2">
-      {value || 'N/A'}
-    </Text>
-  </View>
-)
+const MovieInfo = ({label, value}: MovieInfoProps) => {
+  const { t } = useTranslation()
+
+  return (
+    <View className="flex-col items-start justify-center mt-5">
+      <Text className="text-light-200 font-normal text-sm">
+        {label}
+      </Text>
+      <Text className="text-light-100 font-bold text-sm mt-2">
+        {value || t('common.notAvailable')}
+      </Text>
+    </View>
+  )
+}
 
 const MovieDetails = () => {
-  const {id} = useLocalSearchParams()
+  const {id} = useLocalSearchParams<{ id: string }>()
+  const { t, locale } = useTranslation()
+
+  const { data: movie, loading, error, isOfflineCopy, refetch } = useQuery(
+    queryKeys.movieDetails(id, locale),
+    (signal) => fetchMovieDetails(id, signal),
+    { persist: OFFLINE_TTL.movieDetails }
+  )
+
+  const language = languageOf(locale)
+  const { data: videos } = useQuery(
+    queryKeys.movieVideos(id, language),
+    (signal) => fetchMovieVideos(id, language, signal)
+  )
+  const rankedVideos = useMemo(() => rankVideos(videos ?? [], language), [videos, language])
+  const [playingVideo, setPlayingVideo] = useState<MovieVideo | null>(null)
+
+  const { region } = usePreferences()
+  const { data: providers } = useQuery(
+    queryKeys.watchProviders(id, locale),
+    (signal) => fetchWatchProviders(id, signal),
+    { persist: OFFLINE_TTL.movieDetails }
+  )
+
+  const { data: ratingSummary } = useQuery(
+    queryKeys.ratingSummary(id),
+    () => getRatingSummary(Number(id))
+  )
+  const { data: reviews } = useQuery(
+    queryKeys.reviews(id),
+    () => getMovieReviews(Number(id))
+  )
+
+  const { data: similar } = useQuery(
+    queryKeys.similarMovies(id, locale),
+    (signal) => fetchSimilarMovies(id, signal)
+  )
+  const { data: recommended } = useQuery(
+    queryKeys.recommendedMovies(id, locale),
+    (signal) => fetchRecommendedMovies(id, signal)
+  )
 
-  const { data: movie, loading} = useFetch(() => fetchMovieDetails(id as string))
+  const runtime = movie?.runtime
+    ? movie.runtime >= 60
+      ? t('movie.runtime', { hours: Math.floor(movie.runtime / 60), minutes: movie.runtime % 60 })
+      : t('movie.runtimeMinutes', { minutes: movie.runtime })
+    : null
+
+  // TMDB uses 0 when it doesn't know, which is not the same as a free film
+  const money = (amount?: number) => amount ? formatCurrency(locale, amount) : null
 
   return (
     <View className="bg-primary flex-1">
-      <ScrollView contentContainerStyle={{paddingBottom: 80}}>
-        <View>
-          <Image 
-            source={{uri: `https://image.tmdb.org/t/p/w500${movie?.poster_path}`}} 
-            className="w-full h-[550px]"
-            resizeMode="stretch"
-            />
-        </View>
-
-        <View className="flex-col items-start justify-center mt-5 px-5">
-            <Text className="text-white font-bold text-xl">{movie?.title}  </Text>
-            <View className="flex-row items-center gap-x-1 mt-2">
-              <Text className="text-light-200 text-sm">{movie?.release_date?.split('-')[0]}</Text>
-              <Text className="text-light-200 text-sm">{movie?.runtime}m</Text>
-            </View>
-
-            <View className='flex-row items-center bg-dark-100 px-2 py-1 rounded-md gap-x-1 mt-2'>
-              <Image source={icons.star} className="size-4" />
-              <Text className="text-white font-bold text-sm">
-                {Math.round(movie?.vote_average ?? 0)} / 10
-              </Text>
-
-              <Text className="text-light-200 text-sm">
-                ({movie?.vote_count} votes)
-              </Text>
-
-            </View>
-
-            <MovieInfo label="Overview" value={movie?.overview} />
-            <MovieInfo label="Genres" value={movie?.genres?.map((g) => g.name).join(' - ') || 'N/A'} />
-
-              <View className="flex flex-row justify-between w-3/4">
-                <MovieInfo label="Budget" value={`$${(movie?.budget ?? 0) / 1_000_000} million`} />
-
-                <MovieInfo label="Revenue" value={`$${Math.round(movie?.revenue ?? 0) / 1_000_000}`} />
+      {loading ? (
+        <ActivityIndicator size="large" color="#0000ff" className="flex-1 self-center" />
+      ) : !movie && error ? (
+        <ErrorState error={error} onRetry={refetch} className="px-5 mt-20" />
+      ) : (
+        <ScrollView contentContainerStyle={{paddingBottom: 80}}>
+          <View>
+            <Image 
+              source={{uri: `https://image.tmdb.org/t/p/w500${movie?.poster_path}`}} 
+              className="w-full h-[550px]"
+              resizeMode="stretch"
+              />
+
+            {rankedVideos.length > 0 && (
+              <TouchableOpacity
+                onPress={() => setPlayingVideo(rankedVideos[0])}
+                accessibilityLabel={t('movie.playTrailer')}
+                className="absolute bottom-5 right-5 flex-row items-center bg-white rounded-full px-4 py-3"
+              >
+                <Image source={icons.play} className="size-5 mr-2" resizeMode="contain" />
+                <Text className="text-primary font-semibold text-sm">{t('movie.playTrailer')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View className="flex-col items-start justify-center mt-5 px-5">
+              <OfflineBanner visible={isOfflineCopy} />
+              <View className="flex-row items-center justify-between w-full">
+                <Text className="text-white font-bold text-xl flex-1 mr-3">{movie?.title}</Text>
+                {movie && <SaveButton movie={movie} showLabel />}
+              </View>
+              <View className="flex-row items-center gap-x-1 mt-2">
+                <Text className="text-light-200 text-sm">
+                  {formatDate(locale, movie?.release_date, { year: 'numeric', month: 'short', day: 'numeric' })}
+                </Text>
+                {!!runtime && <Text className="text-light-200 text-sm">· {runtime}</Text>}
+              </View>
+
+              <View className="flex-row items-center gap-x-2 mt-2">
+                <View className='flex-row items-center bg-dark-100 px-2 py-1 rounded-md gap-x-1'>
+                  <Image source={icons.star} className="size-4" />
+                  <Text className="text-white font-bold text-sm">
+                    {Math.round(movie?.vote_average ?? 0)} / 10
+                  </Text>
+
+                  <Text className="text-light-200 text-sm">
+                    {t('movie.votes', { count: (movie?.vote_count ?? 0).toLocaleString(locale) })}
+                  </Text>
+
+                </View>
+
+                {movie && <YourRating movieId={movie.id} title={movie.title} />}
               </View>
 
-              <MovieInfo label="Production Companies" value={movie?.production_companies.map((c) => c.name).join(' - ') || 'N/A' }/>
+              {!!ratingSummary?.count && ratingSummary.average !== null && (
+                <Text className="text-light-200 text-xs mt-2">
+                  {t(ratingSummary.count === 1 ? 'movie.inAppRatingOne' : 'movie.inAppRating', {
+                    average: ratingSummary.average.toLocaleString(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+                    count: ratingSummary.count
+                  })}
+                </Text>
+              )}
+
+              <MovieInfo label={t('movie.overview')} value={movie?.overview} />
+              <MovieInfo label={t('movie.genres')} value={movie?.genres?.map((g) => g.name).join(' - ')} />
+
+              {providers && <WatchProviders availability={providers[region]} region={region} />}
+
+              <KeyCrew crew={movie?.credits?.crew ?? []} />
+              <CastRow cast={movie?.credits?.cast ?? []} />
+              <VideoList videos={rankedVideos.slice(1)} onSelect={setPlayingVideo} />
+              <ReviewList reviews={reviews ?? []} />
+
+                <View className="flex flex-row justify-between w-3/4">
+                  <MovieInfo label={t('movie.budget')} value={money(movie?.budget)} />
+
+                  <MovieInfo label={t('movie.revenue')} value={money(movie?.revenue)} />
+                </View>
+
+                <MovieInfo label={t('movie.productionCompanies')} value={movie?.production_companies.map((c) => c.name).join(' - ')} />
+
+              {movie?.belongs_to_collection && (
+                <CollectionBanner collection={movie.belongs_to_collection} movieId={movie.id} />
+              )}
+
+              <MovieRail title={t('movie.moreLikeThis')} movies={similar?.results ?? []} excludeId={movie?.id} />
+              <MovieRail title={t('movie.recommended')} movies={recommended?.results ?? []} excludeId={movie?.id} />
 
-        </View>
+          </View>
 
-      </ScrollView>
+        </ScrollView>
+      )}
 
       <TouchableOpacity className="absolute bottom-5 left-0 right-0 mx-5 bg-accent rounded-lg py-3.5 flex flex-row items-center justify-center z-50" onPress={router.back}>
         <Image source={icons.arrow} className='size-5 mr-1 mt-0.5 rotate-180' tintColor='#fff' />
-        <Text className ="text-white font-semibold text-base">Go back</Text>
+        <Text className ="text-white font-semibold text-base">{t('common.goBack')}</Text>
       </TouchableOpacity>
-      <Text>MovieDetails</Text>
+      <TrailerModal video={playingVideo} onClose={() => setPlayingVideo(null)} />
     </View>
   )
 }
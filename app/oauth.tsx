@@ -2,6 +2,9 @@ import { useEffect } from 'react';
 import { View, Text } from 'react-native';
 import { useAuth } from '@/services/AuthContext';
 import { router, useLocalSearchParams } from 'expo-router';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('OAuth');
 
 export default function OAuth() {
   const { refreshAuthState } = useAuth();
@@ -10,25 +13,25 @@ export default function OAuth() {
   useEffect(() => {
     const handleOAuthCallback = async () => {
       try {
-        console.log("OAuth: Callback received with params:", params);
+        log.debug("Callback received with params", params);
         
         // Check if we have any OAuth-related parameters
         // Appwrite typically redirects back with success/error indicators
         
-        console.log("OAuth: Refreshing auth state...");
+        log.debug("Refreshing auth state...");
         // Refresh the auth state to detect the new session
         await refreshAuthState();
-        console.log("OAuth: Auth state refreshed, redirect will happen via index.tsx");
+        log.debug("Auth state refreshed, redirect will happen via index.tsx");
         
       } catch (error) {
-        console.log("OAuth: Error handling callback:", error);
+        log.error("Error handling callback", error);
         // If there's an error, redirect to auth screens
         router.replace('/(auth)/sign-in');
       }
     };
 
     handleOAuthCallback();
-  }, [params]);
+  }, [params, refreshAuthState]);
 
   return (
     <View className="flex-1 justify-center items-center bg-primary">
@@ -1,13 +1,16 @@
 import { useEffect } from 'react';
 import { View, Text, TouchableOpacity, Alert } from 'react-native';
 import { router } from 'expo-router';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('OAuthFailure');
 
 export default function OAuthFailure() {
   useEffect(() => {
-    console.log("OAuth Failure: User cancelled or error occurred");
+    log.error("User cancelled or error occurred");
     Alert.alert(
       "Sign In Cancelled", 
-      "Google sign in was cancelled or failed. Please try again.",
+      "Sign in was cancelled or failed. Please try again.",
       [
         {
           text: "OK",
@@ -2,6 +2,9 @@ import { useEffect } from 'react';
 import { View, Text } from 'react-native';
 import { useAuth } from '@/services/AuthContext';
 import { router } from 'expo-router';
+import { createLogger } from '@/services/logger';
+
+const log = createLogger('OAuthSuccess');
 
 export default function OAuthSuccess() {
   const { refreshAuthState } = useAuth();
@@ -9,20 +12,20 @@ export default function OAuthSuccess() {
   useEffect(() => {
     const handleOAuthSuccess = async () => {
       try {
-        console.log("OAuth Success: Refreshing auth state...");
+        log.debug("Refreshing auth state...");
         // Refresh the auth state to detect the new session
         await refreshAuthState();
-        console.log("OAuth Success: Auth state refreshed, redirecting to main app");
+        log.debug("Auth state refreshed, redirecting to main app");
         // Redirect will happen automatically via the index.tsx logic
       } catch (error) {
-        console.log("OAuth Success: Error refreshing auth state:", error);
+        log.error("Error refreshing auth state", error);
         // If there's an error, redirect to auth screens
         router.replace('/(auth)/sign-in');
       }
     };
 
     handleOAuthSuccess();
-  }, []);
+  }, [refreshAuthState]);
 
   return (
     <View className="flex-1 justify-center items-center bg-primary">
@@ -0,0 +1,183 @@
+import ErrorState from '@/components/ErrorState'
+import MovieRail from '@/components/MovieRail'
+import { icons } from '@/constants/icons'
+import { fetchPersonDetails } from '@/services/api'
+import { useTranslation } from '@/services/i18n'
+import {
+  FilmographyEntry,
+  FilmographySort,
+  getActingCredits,
+  getCrewCredits,
+  getKnownFor,
+  sortFilmography
+} from '@/services/filmography'
+import { formatDate } from '@/services/locale'
+import { queryKeys } from '@/services/queryKeys'
+import useQuery from '@/services/useQuery'
+import { Link, router, useLocalSearchParams } from 'expo-router'
+import React, { useMemo, useState } from 'react'
+import { ActivityIndicator, Image, ScrollView, Text, TouchableOpacity, View } from 'react-native'
+
+type FilmographyTab = 'acting' | 'crew'
+
+const ageAt = (birthday: string, until?: string | null) => {
+  const born = new Date(birthday)
+  const end = until ? new Date(until) : new Date()
+  const age = end.getFullYear() - born.getFullYear()
+  const beforeBirthday = end.getMonth() < born.getMonth() ||
+    (end.getMonth() === born.getMonth() && end.getDate() < born.getDate())
+
+  return beforeBirthday ? age - 1 : age
+}
+
+const PersonInfo = ({ label, value }: { label: string, value?: string | null }) => {
+  if (!value) return null
+
+  return (
+    <View className="flex-col items-start justify-center mt-5">
+      <Text className="text-light-200 font-normal text-sm">{label}</Text>
+      <Text className="text-light-100 font-bold text-sm mt-2">{value}</Text>
+    </View>
+  )
+}
+
+const Toggle = ({ label, selected, onPress }: { label: string, selected: boolean, onPress: () => void }) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className={`px-3 py-1.5 rounded-full mr-2 ${selected ? 'bg-accent' : 'bg-dark-100'}`}
+  >
+    <Text className={`text-xs font-semibold ${selected ? 'text-primary' : 'text-light-200'}`}>{label}</Text>
+  </TouchableOpacity>
+)
+
+const FilmographyRow = ({ movie, role }: FilmographyEntry) => (
+  <Link href={`/movies/${movie.id}`} push asChild>
+    <TouchableOpacity className="flex-row items-center py-2">
+      <Image
+        source={{
+          uri: movie.poster_path
+            ? `https://image.tmdb.org/t/p/w185${movie.poster_path}`
+            : 'https://placehold.co/185x278/1a1a1a/ffffff.png'
+        }}
+        className="w-12 h-[72px] rounded-md"
+        resizeMode="cover"
+      />
+      <View className="flex-1 ml-3">
+        <Text className="text-white font-bold text-sm" numberOfLines={1}>{movie.title}</Text>
+        {!!role && <Text className="text-light-200 text-xs mt-1" numberOfLines={1}>{role}</Text>}
+      </View>
+      <Text className="text-light-300 text-xs ml-3">{movie.release_date?.split('-')[0] || '—'}</Text>
+    </TouchableOpacity>
+  </Link>
+)
+
+const PersonDetailsScreen = () => {
+  const { id } = useLocalSearchParams<{ id: string }>()
+  const { t, locale } = useTranslation()
+
+  const { data: person, loading, error, refetch } = useQuery(
+    queryKeys.person(id, locale),
+    (signal) => fetchPersonDetails(id, signal)
+  )
+
+  const [tab, setTab] = useState<FilmographyTab | null>(null)
+  const [sort, setSort] = useState<FilmographySort>('year')
+  const [bioExpanded, setBioExpanded] = useState(false)
+
+  const acting = useMemo(() => person ? getActingCredits(person) : [], [person])
+  const crew = useMemo(() => person ? getCrewCredits(person) : [], [person])
+  const knownFor = useMemo(() => person ? getKnownFor(person) : [], [person])
+
+  // Open on whichever side of the camera the person is known for
+  const activeTab = tab ?? (person?.known_for_department === 'Acting' || crew.length === 0 ? 'acting' : 'crew')
+  const filmography = useMemo(
+    () => sortFilmography(activeTab === 'acting' ? acting : crew, sort),
+    [activeTab, acting, crew, sort]
+  )
+
+  const born = person?.birthday
+    ? [
+      formatDate(locale, person.birthday),
+      !person.deathday ? t('people.age', { age: ageAt(person.birthday) }) : null
+    ].filter(Boolean).join(' ')
+    : null
+  const died = person?.deathday && person.birthday
+    ? t('people.diedAged', { date: formatDate(locale, person.deathday) ?? person.deathday, age: ageAt(person.birthday, person.deathday) })
+    : formatDate(locale, person?.deathday)
+
+  return (
+    <View className="bg-primary flex-1">
+      {loading ? (
+        <ActivityIndicator size="large" color="#0000ff" className="flex-1 self-center" />
+      ) : !person && error ? (
+        <ErrorState error={error} onRetry={refetch} className="px-5 mt-20" />
+      ) : (
+        <ScrollView contentContainerStyle={{ paddingBottom: 80 }}>
+          <View className="flex-row px-5 mt-20">
+            <Image
+              source={{
+                uri: person?.profile_path
+                  ? `https://image.tmdb.org/t/p/w500${person.profile_path}`
+                  : 'https://placehold.co/500x750/1a1a1a/ffffff.png'
+              }}
+              className="w-32 h-48 rounded-lg"
+              resizeMode="cover"
+            />
+            <View className="flex-1 ml-4 justify-end">
+              <Text className="text-white font-bold text-xl">{person?.name}</Text>
+              <Text className="text-light-200 text-sm mt-1">{person?.known_for_department}</Text>
+            </View>
+          </View>
+
+          <View className="px-5">
+            <PersonInfo label={t('people.born')} value={born} />
+            <PersonInfo label={t('people.died')} value={died} />
+            <PersonInfo label={t('people.placeOfBirth')} value={person?.place_of_birth} />
+
+            {!!person?.biography && (
+              <View className="mt-5">
+                <Text className="text-light-200 font-normal text-sm">{t('people.biography')}</Text>
+                <Text className="text-light-100 text-sm mt-2" numberOfLines={bioExpanded ? undefined : 6}>
+                  {person.biography}
+                </Text>
+                <TouchableOpacity onPress={() => setBioExpanded(!bioExpanded)}>
+                  <Text className="text-accent text-xs font-semibold mt-2">{bioExpanded ? t('people.showLess') : t('people.readMore')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <MovieRail title={t('people.knownFor')} movies={knownFor} />
+
+            <Text className="text-lg text-white font-bold mt-8">{t('people.filmography')}</Text>
+
+            <View className="flex-row justify-between mt-3 mb-2">
+              <View className="flex-row">
+                <Toggle label={t('people.acting', { count: acting.length })} selected={activeTab === 'acting'} onPress={() => setTab('acting')} />
+                <Toggle label={t('people.crew', { count: crew.length })} selected={activeTab === 'crew'} onPress={() => setTab('crew')} />
+              </View>
+              <View className="flex-row">
+                <Toggle label={t('people.sortYear')} selected={sort === 'year'} onPress={() => setSort('year')} />
+                <Toggle label={t('people.sortPopularity')} selected={sort === 'popularity'} onPress={() => setSort('popularity')} />
+              </View>
+            </View>
+
+            {filmography.map((entry) => (
+              <FilmographyRow key={entry.creditId} {...entry} />
+            ))}
+
+            {filmography.length === 0 && (
+              <Text className="text-gray-500 text-sm mt-3">{t('people.noCredits')}</Text>
+            )}
+          </View>
+        </ScrollView>
+      )}
+
+      <TouchableOpacity className="absolute bottom-5 left-0 right-0 mx-5 bg-accent rounded-lg py-3.5 flex flex-row items-center justify-center z-50" onPress={router.back}>
+        <Image source={icons.arrow} className='size-5 mr-1 mt-0.5 rotate-180' tintColor='#fff' />
+        <Text className ="text-white font-semibold text-base">{t('common.goBack')}</Text>
+      </TouchableOpacity>
+    </View>
+  )
+}
+
+export default PersonDetailsScreen
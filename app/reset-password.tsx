@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, Alert } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { TranslationKey } from "@/constants/translations";
+import { completePasswordRecovery } from "@/services/appwrite";
+import { isLinkExpired } from "@/services/authLinks";
+import { NotFoundError, UnauthorizedError } from "@/services/errors";
+import { useTranslation } from "@/services/i18n";
+import { createLogger } from "@/services/logger";
+import { PASSWORD_RULES, unmetPasswordRules } from "@/services/password";
+
+const log = createLogger("ResetPassword");
+
+type LinkProblem = "invalid" | "expired";
+
+const LINK_PROBLEMS: Record<LinkProblem, { titleKey: TranslationKey, messageKey: TranslationKey }> = {
+  invalid: { titleKey: "reset.invalidTitle", messageKey: "reset.invalidMessage" },
+  expired: { titleKey: "reset.expiredTitle", messageKey: "reset.expiredMessage" },
+};
+
+// Opened from the recovery email, e.g. <scheme>://reset-password?userId=...&secret=...&expire=...
+export default function ResetPassword() {
+  const { userId, secret, expire } = useLocalSearchParams<{ userId?: string, secret?: string, expire?: string }>();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [submitProblem, setSubmitProblem] = useState<LinkProblem | null>(null);
+  const [isDone, setIsDone] = useState(false);
+  const { t, describeError } = useTranslation();
+
+  const linkProblem: LinkProblem | null = submitProblem
+    ?? (!userId || !secret ? "invalid" : isLinkExpired(expire) ? "expired" : null);
+
+  const unmet = unmetPasswordRules(password);
+  const mismatch = confirmation.length > 0 && confirmation !== password;
+
+  const handleSave = async () => {
+    if (!userId || !secret) return;
+
+    if (unmet.length > 0) {
+      Alert.alert(t("auth.error"), t("reset.unmetRules"));
+      return;
+    }
+    if (password !== confirmation) {
+      Alert.alert(t("auth.error"), t("reset.mismatch"));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await completePasswordRecovery(userId, secret, password);
+      log.debug("Password reset");
+      setIsDone(true);
+    } catch (error) {
+      // Appwrite answers the same way for used, wrong and expired secrets
+      if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+        setSubmitProblem(isLinkExpired(expire) ? "expired" : "invalid");
+      } else {
+        Alert.alert(t("reset.failed"), describeError(error));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (linkProblem) {
+    const { titleKey, messageKey } = LINK_PROBLEMS[linkProblem];
+
+    return (
+      <View className="flex-1 bg-primary px-6 justify-center">
+        <Text className="text-white text-3xl font-bold mb-4 text-center">{t(titleKey)}</Text>
+        <Text className="text-gray-400 text-center mb-8">{t(messageKey)}</Text>
+
+        <TouchableOpacity
+          className="bg-orange-500 py-4 rounded-lg"
+          onPress={() => router.replace("/(auth)/forgot-password")}
+        >
+          <Text className="text-white text-center font-semibold text-lg">{t("reset.sendNewLink")}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (isDone) {
+    return (
+      <View className="flex-1 bg-primary px-6 justify-center">
+        <Text className="text-white text-3xl font-bold mb-4 text-center">{t("reset.doneTitle")}</Text>
+        <Text className="text-gray-400 text-center mb-8">{t("reset.doneMessage")}</Text>
+
+        <TouchableOpacity
+          className="bg-orange-500 py-4 rounded-lg"
+          onPress={() => router.replace("/(auth)/sign-in")}
+        >
+          <Text className="text-white text-center font-semibold text-lg">{t("auth.signIn")}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View className="flex-1 bg-primary px-6 justify-center">
+      <Text className="text-white text-3xl font-bold mb-8 text-center">
+        {t("reset.title")}
+      </Text>
+
+      <View className="space-y-4">
+        <View>
+          <Text className="text-white mb-2">{t("reset.newPassword")}</Text>
+          <TextInput
+            className="bg-gray-800 text-white px-4 py-3 rounded-lg"
+            placeholder={t("reset.newPasswordPlaceholder")}
+            placeholderTextColor="#9CA3AF"
+            value={password}
+            onChangeText={setPassword}
+            secureTextEntry
+          />
+        </View>
+
+        <View className="mt-2">
+          {PASSWORD_RULES.map((rule) => {
+            const met = !unmet.includes(rule);
+            return (
+              <Text key={rule.id} className={`text-xs ${met ? "text-green-500" : "text-gray-400"}`}>
+                {met ? "✓" : "•"} {t(rule.labelKey)}
+              </Text>
+            );
+          })}
+        </View>
+
+        <View className="mt-4">
+          <Text className="text-white mb-2">{t("reset.confirmPassword")}</Text>
+          <TextInput
+            className="bg-gray-800 text-white px-4 py-3 rounded-lg"
+            placeholder={t("reset.confirmPlaceholder")}
+            placeholderTextColor="#9CA3AF"
+            value={confirmation}
+            onChangeText={setConfirmation}
+            secureTextEntry
+          />
+          {mismatch && (
+            <Text className="text-red-500 text-xs mt-1">{t("reset.mismatch")}</Text>
+          )}
+        </View>
+
+        <TouchableOpacity
+          className="bg-orange-500 py-4 rounded-lg mt-6"
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          <Text className="text-white text-center font-semibold text-lg">
+            {isSaving ? t("reset.saving") : t("reset.save")}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,183 @@
+import CastRow from '@/components/CastRow'
+import ErrorState from '@/components/ErrorState'
+import OfflineBanner from '@/components/OfflineBanner'
+import SaveButton from '@/components/SaveButton'
+import { icons } from '@/constants/icons'
+import { fetchTvDetails, fetchTvSeason } from '@/services/api'
+import { useTranslation } from '@/services/i18n'
+import { tvShowToSaveable } from '@/services/media'
+import { OFFLINE_TTL } from '@/services/offlineStore'
+import { queryKeys } from '@/services/queryKeys'
+import useQuery from '@/services/useQuery'
+import { router, useLocalSearchParams } from 'expo-router'
+import React, { useState } from 'react'
+import { ActivityIndicator, Image, ScrollView, Text, TouchableOpacity, View } from 'react-native'
+
+interface ShowInfoProps {
+  label: string
+  value?: string | number | null
+}
+
+const ShowInfo = ({label, value}: ShowInfoProps) => {
+  const { t } = useTranslation()
+
+  return (
+    <View className="flex-col items-start justify-center mt-5">
+      <Text className="text-light-200 font-normal text-sm">
+        {label}
+      </Text>
+      <Text className="text-light-100 font-bold text-sm mt-2">
+        {value || t('common.notAvailable')}
+      </Text>
+    </View>
+  )
+}
+
+const airYears = (show: TvDetails) => {
+  const start = show.first_air_date?.split('-')[0]
+  if (!start) return null
+  if (show.in_production) return `${start}–`
+
+  const end = show.last_air_date?.split('-')[0]
+  return end && end !== start ? `${start}–${end}` : start
+}
+
+// Specials live in season 0, which most people don't want to land on
+const defaultSeason = (seasons: TvSeasonSummary[]) =>
+  (seasons.find((season) => season.season_number > 0) ?? seasons[0])?.season_number ?? null
+
+const EpisodeRow = ({ episode }: { episode: TvEpisode }) => (
+  <View className="flex-row py-3">
+    <Image
+      source={{
+        uri: episode.still_path
+          ? `https://image.tmdb.org/t/p/w300${episode.still_path}`
+          : 'https://placehold.co/300x169/1a1a1a/ffffff.png'
+      }}
+      className="w-32 h-[72px] rounded-md"
+      resizeMode="cover"
+    />
+    <View className="flex-1 ml-3">
+      <Text className="text-white font-bold text-sm" numberOfLines={1}>
+        {episode.episode_number}. {episode.name}
+      </Text>
+      <Text className="text-light-300 text-xs mt-1">
+        {[episode.air_date, episode.runtime ? `${episode.runtime}m` : null].filter(Boolean).join(' · ')}
+      </Text>
+      {!!episode.overview && (
+        <Text className="text-light-200 text-xs mt-1" numberOfLines={3}>{episode.overview}</Text>
+      )}
+    </View>
+  </View>
+)
+
+const TvDetailsScreen = () => {
+  const {id} = useLocalSearchParams<{ id: string }>()
+  const { t, locale } = useTranslation()
+
+  const { data: show, loading, error, isOfflineCopy, refetch } = useQuery(
+    queryKeys.tvDetails(id, locale),
+    (signal) => fetchTvDetails(id, signal),
+    { persist: OFFLINE_TTL.movieDetails }
+  )
+
+  const [selectedSeason, setSelectedSeason] = useState<number | null>(null)
+  const seasonNumber = selectedSeason ?? defaultSeason(show?.seasons ?? [])
+
+  const { data: season, loading: seasonLoading, error: seasonError, refetch: refetchSeason } = useQuery(
+    queryKeys.tvSeason(id, seasonNumber ?? 0, locale),
+    (signal) => fetchTvSeason(id, seasonNumber ?? 0, signal),
+    { enabled: seasonNumber !== null, persist: OFFLINE_TTL.movieDetails }
+  )
+
+  return (
+    <View className="bg-primary flex-1">
+      {loading ? (
+        <ActivityIndicator size="large" color="#0000ff" className="flex-1 self-center" />
+      ) : !show && error ? (
+        <ErrorState error={error} onRetry={refetch} className="px-5 mt-20" />
+      ) : (
+        <ScrollView contentContainerStyle={{paddingBottom: 80}}>
+          <Image
+            source={{uri: `https://image.tmdb.org/t/p/w500${show?.poster_path}`}}
+            className="w-full h-[550px]"
+            resizeMode="stretch"
+          />
+
+          <View className="flex-col items-start justify-center mt-5 px-5">
+            <OfflineBanner visible={isOfflineCopy} />
+            <View className="flex-row items-center justify-between w-full">
+              <Text className="text-white font-bold text-xl flex-1 mr-3">{show?.name}</Text>
+              {show && <SaveButton movie={tvShowToSaveable(show)} showLabel />}
+            </View>
+            <View className="flex-row items-center gap-x-2 mt-2">
+              {show && <Text className="text-light-200 text-sm">{airYears(show)}</Text>}
+              <Text className="text-light-200 text-sm">
+                {t(show?.number_of_seasons === 1 ? 'tv.seasonCountOne' : 'tv.seasonCount', { count: show?.number_of_seasons ?? 0 })}
+              </Text>
+            </View>
+
+            <View className='flex-row items-center bg-dark-100 px-2 py-1 rounded-md gap-x-1 mt-2'>
+              <Image source={icons.star} className="size-4" />
+              <Text className="text-white font-bold text-sm">
+                {Math.round(show?.vote_average ?? 0)} / 10
+              </Text>
+
+              <Text className="text-light-200 text-sm">
+                {t('movie.votes', { count: (show?.vote_count ?? 0).toLocaleString(locale) })}
+              </Text>
+            </View>
+
+            <ShowInfo label={t('movie.overview')} value={show?.overview} />
+            <ShowInfo label={t('movie.genres')} value={show?.genres?.map((g) => g.name).join(' - ')} />
+            <ShowInfo label={t('tv.createdBy')} value={show?.created_by?.map((c) => c.name).join(', ')} />
+            <ShowInfo label={t('tv.networks')} value={show?.networks?.map((n) => n.name).join(' - ')} />
+
+            <CastRow cast={show?.credits?.cast ?? []} />
+
+            {(show?.seasons?.length ?? 0) > 0 && (
+              <View className="mt-8 w-full">
+                <Text className="text-lg text-white font-bold mb-3">{t('tv.seasons')}</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {show?.seasons.map((item) => (
+                    <TouchableOpacity
+                      key={item.id}
+                      onPress={() => setSelectedSeason(item.season_number)}
+                      className={`px-3 py-1.5 rounded-full mr-2 ${item.season_number === seasonNumber ? 'bg-accent' : 'bg-dark-100'}`}
+                    >
+                      <Text className={`text-xs font-semibold ${item.season_number === seasonNumber ? 'text-primary' : 'text-light-200'}`}>
+                        {item.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+
+                {seasonLoading ? (
+                  <ActivityIndicator size="small" color="#0000ff" className="mt-5 self-center" />
+                ) : !season && seasonError ? (
+                  <ErrorState error={seasonError} onRetry={refetchSeason} className="mt-3" />
+                ) : (
+                  <View className="mt-2">
+                    {season?.episodes.map((episode) => (
+                      <EpisodeRow key={episode.id} episode={episode} />
+                    ))}
+                    {season?.episodes.length === 0 && (
+                      <Text className="text-gray-500 text-sm mt-3">{t('tv.noEpisodes')}</Text>
+                    )}
+                  </View>
+                )}
+              </View>
+            )}
+          </View>
+        </ScrollView>
+      )}
+
+      <TouchableOpacity className="absolute bottom-5 left-0 right-0 mx-5 bg-accent rounded-lg py-3.5 flex flex-row items-center justify-center z-50" onPress={router.back}>
+        <Image source={icons.arrow} className='size-5 mr-1 mt-0.5 rotate-180' tintColor='#fff' />
+        <Text className ="text-white font-semibold text-base">{t('common.goBack')}</Text>
+      </TouchableOpacity>
+    </View>
+  )
+}
+
+export default TvDetailsScreen
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, ActivityIndicator } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { TranslationKey } from "@/constants/translations";
+import { useAuth } from "@/services/AuthContext";
+import { confirmEmailVerification } from "@/services/appwrite";
+import { isLinkExpired } from "@/services/authLinks";
+import { NotFoundError, UnauthorizedError } from "@/services/errors";
+import { useTranslation } from "@/services/i18n";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger("VerifyEmail");
+
+type Outcome = "verifying" | "verified" | "invalid" | "expired" | "failed";
+
+const OUTCOMES: Record<Exclude<Outcome, "verifying">, { titleKey: TranslationKey, messageKey: TranslationKey }> = {
+  verified: { titleKey: "verify.verifiedTitle", messageKey: "verify.verifiedMessage" },
+  invalid: { titleKey: "verify.invalidTitle", messageKey: "verify.invalidMessage" },
+  expired: { titleKey: "verify.expiredTitle", messageKey: "verify.expiredMessage" },
+  failed: { titleKey: "verify.failedTitle", messageKey: "verify.failedMessage" },
+};
+
+// Opened from the verification email, e.g. <scheme>://verify-email?userId=...&secret=...&expire=...
+export default function VerifyEmail() {
+  const { userId, secret, expire } = useLocalSearchParams<{ userId?: string, secret?: string, expire?: string }>();
+  const { status, refreshAuthState } = useAuth();
+  const { t } = useTranslation();
+  const [outcome, setOutcome] = useState<Outcome>("verifying");
+
+  useEffect(() => {
+    if (!userId || !secret) {
+      setOutcome("invalid");
+      return;
+    }
+    if (isLinkExpired(expire)) {
+      setOutcome("expired");
+      return;
+    }
+
+    const verify = async () => {
+      try {
+        await confirmEmailVerification(userId, secret);
+        log.debug("Email verified");
+        setOutcome("verified");
+
+        // Pick up the new emailVerification flag
+        await refreshAuthState().catch(() => {});
+      } catch (error) {
+        if (error instanceof UnauthorizedError || error instanceof NotFoundError) {
+          setOutcome(isLinkExpired(expire) ? "expired" : "invalid");
+        } else {
+          setOutcome("failed");
+        }
+      }
+    };
+
+    verify();
+  }, [userId, secret, expire, refreshAuthState]);
+
+  if (outcome === "verifying") {
+    return (
+      <View className="flex-1 justify-center items-center bg-primary">
+        <ActivityIndicator size="large" color="#0000ff" />
+        <Text className="text-white text-lg mt-4">{t("verify.verifying")}</Text>
+      </View>
+    );
+  }
+
+  const { titleKey, messageKey } = OUTCOMES[outcome];
+  const signedIn = status === "signedIn" || status === "refreshing";
+
+  return (
+    <View className="flex-1 bg-primary px-6 justify-center">
+      <Text className="text-white text-3xl font-bold mb-4 text-center">{t(titleKey)}</Text>
+      <Text className="text-gray-400 text-center mb-8">{t(messageKey)}</Text>
+
+      <TouchableOpacity
+        className="bg-orange-500 py-4 rounded-lg"
+        onPress={() => router.replace(signedIn ? "/(tabs)/profile" : "/(auth)/sign-in")}
+      >
+        <Text className="text-white text-center font-semibold text-lg">
+          {signedIn ? t("verify.goToProfile") : t("auth.signIn")}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -0,0 +1,32 @@
+import { useTranslation } from '@/services/i18n'
+import React from 'react'
+import { FlatList, Text, View } from 'react-native'
+import PersonCard from './PersonCard'
+
+interface Props {
+    cast: CastMember[]
+}
+
+const CastRow = ({ cast }: Props) => {
+  const { t } = useTranslation()
+
+  if (cast.length === 0) return null
+
+  return (
+    <View className="mt-5 w-full">
+      <Text className="text-light-200 font-normal text-sm mb-3">{t('movie.cast')}</Text>
+      <FlatList
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        data={[...cast].sort((a, b) => a.order - b.order).slice(0, 20)}
+        keyExtractor={(item) => item.credit_id}
+        renderItem={({ item }) => (
+          <PersonCard id={item.id} name={item.name} subtitle={item.character} profile_path={item.profile_path} />
+        )}
+        ItemSeparatorComponent={() => <View className="w-3" />}
+      />
+    </View>
+  )
+}
+
+export default CastRow
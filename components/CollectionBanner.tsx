@@ -0,0 +1,37 @@
+import { useTranslation } from '@/services/i18n'
+import { Link } from 'expo-router'
+import React from 'react'
+import { ImageBackground, Text, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    collection: NonNullable<MovieDetails['belongs_to_collection']>
+    movieId: number
+}
+
+const CollectionBanner = ({ collection, movieId }: Props) => {
+  const { t } = useTranslation()
+
+  return (
+    <Link href={{ pathname: '/collections/[id]', params: { id: collection.id, current: movieId } }} push asChild>
+      <TouchableOpacity className="w-full mt-8 rounded-lg overflow-hidden">
+        <ImageBackground
+          source={{
+            uri: collection.backdrop_path
+              ? `https://image.tmdb.org/t/p/w780${collection.backdrop_path}`
+              : 'https://placehold.co/780x439/1a1a1a/ffffff.png'
+          }}
+          className="w-full h-32"
+          resizeMode="cover"
+        >
+          <View className="flex-1 justify-end bg-primary/60 px-4 py-3">
+            <Text className="text-light-200 text-xs">{t('collection.partOf')}</Text>
+            <Text className="text-white font-bold text-base" numberOfLines={1}>{collection.name}</Text>
+            <Text className="text-accent text-xs font-semibold mt-1">{t('collection.view')}</Text>
+          </View>
+        </ImageBackground>
+      </TouchableOpacity>
+    </Link>
+  )
+}
+
+export default CollectionBanner
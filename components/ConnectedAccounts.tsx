@@ -0,0 +1,147 @@
+import { deleteIdentity, getUserIdentities } from '@/services/appwrite'
+import { useAuth } from '@/services/AuthContext'
+import { useTranslation } from '@/services/i18n'
+import { canUnlinkIdentity } from '@/services/identities'
+import { formatDate } from '@/services/locale'
+import { OAUTH_PROVIDERS, OAuthProviderConfig } from '@/services/oauthProviders'
+import { queryKeys } from '@/services/queryKeys'
+import useQuery from '@/services/useQuery'
+import React, { useState } from 'react'
+import { ActivityIndicator, Alert, Text, TouchableOpacity, View } from 'react-native'
+import { Models } from 'react-native-appwrite'
+import ErrorState from './ErrorState'
+
+const ConnectedAccounts = () => {
+  const { user, linkOAuthProvider } = useAuth()
+  const { t, describeError, locale } = useTranslation()
+  const [busyProvider, setBusyProvider] = useState<string | null>(null)
+
+  const { data, error, loading, refetch } = useQuery(
+    queryKeys.identities(user?.$id ?? ''),
+    getUserIdentities,
+    { enabled: !!user }
+  )
+
+  if (!user) return null
+
+  const identities = data?.identities ?? []
+
+  const startLink = async ({ id, branding }: OAuthProviderConfig) => {
+    try {
+      setBusyProvider(id)
+      const outcome = await linkOAuthProvider(id)
+      if (outcome === 'cancelled') return
+      if (outcome === 'otherAccount') {
+        Alert.alert(t('accounts.notLinked', { provider: branding.label, email: user.email }))
+        return
+      }
+      await refetch()
+    } catch (error) {
+      Alert.alert(t('accounts.linkFailed', { provider: branding.label }), describeError(error))
+    } finally {
+      setBusyProvider(null)
+    }
+  }
+
+  // Appwrite can only attach a provider whose email matches this account's,
+  // so say so before the browser opens rather than after
+  const link = (provider: OAuthProviderConfig) => {
+    const vars = { provider: provider.branding.label, email: user.email }
+
+    Alert.alert(
+      t('accounts.linkTitle', vars),
+      t('accounts.linkNotice', vars),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('accounts.link'), onPress: () => startLink(provider) }
+      ]
+    )
+  }
+
+  const unlink = (identity: Models.Identity, { id, branding }: OAuthProviderConfig) => {
+    if (!canUnlinkIdentity(user, identities)) {
+      Alert.alert(t('accounts.lastMethod'))
+      return
+    }
+
+    Alert.alert(
+      t('accounts.unlinkTitle', { provider: branding.label }),
+      t('accounts.unlinkMessage', { provider: branding.label }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('accounts.unlink'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setBusyProvider(id)
+              await deleteIdentity(identity.$id)
+              await refetch()
+            } catch (error) {
+              Alert.alert(t('accounts.unlinkFailed'), describeError(error))
+            } finally {
+              setBusyProvider(null)
+            }
+          }
+        }
+      ]
+    )
+  }
+
+  const describeAccess = (identity: Models.Identity) => {
+    const expiry = identity.providerAccessTokenExpiry
+    if (!expiry) return null
+    if (Date.parse(expiry) <= Date.now()) return t('accounts.expired')
+    return t('accounts.expires', { date: formatDate(locale, expiry, { dateStyle: 'medium', timeStyle: 'short' }) ?? expiry })
+  }
+
+  return (
+    <View className="w-full mb-8">
+      <Text className="text-white font-bold text-lg mb-3">{t('accounts.title')}</Text>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#0000ff" className="self-start" />
+      ) : error && !data ? (
+        <ErrorState error={error} onRetry={refetch} className="items-start" />
+      ) : (
+        OAUTH_PROVIDERS.map((provider) => {
+          const identity = identities.find((item) => item.provider === provider.id)
+          const busy = busyProvider === provider.id
+          const access = identity ? describeAccess(identity) : null
+
+          return (
+            <View
+              key={provider.id}
+              className="flex-row items-center justify-between bg-dark-100 rounded-lg px-4 py-3 mb-2"
+            >
+              <View className="flex-1 mr-3">
+                <Text className="text-white font-semibold text-sm">{provider.branding.label}</Text>
+                <Text className="text-light-200 text-xs mt-0.5" numberOfLines={1}>
+                  {identity ? identity.providerEmail || t('accounts.connected') : t('accounts.notConnected')}
+                </Text>
+                {access && <Text className="text-light-300 text-xs mt-0.5">{access}</Text>}
+              </View>
+
+              {busy ? (
+                <ActivityIndicator size="small" color="#0000ff" />
+              ) : (
+                <TouchableOpacity
+                  onPress={() => identity ? unlink(identity, provider) : link(provider)}
+                  disabled={busyProvider !== null}
+                  accessibilityRole="button"
+                  className={`px-3 py-1.5 rounded-full ${identity ? 'bg-dark-200' : 'bg-accent'}`}
+                >
+                  <Text className={`text-xs font-semibold ${identity ? 'text-light-200' : 'text-primary'}`}>
+                    {identity ? t('accounts.unlink') : t('accounts.link')}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )
+        })
+      )}
+    </View>
+  )
+}
+
+export default ConnectedAccounts
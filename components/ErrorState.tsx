@@ -0,0 +1,27 @@
+import { canRetryManually } from '@/services/errors'
+import { useTranslation } from '@/services/i18n'
+import React from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    error: Error
+    onRetry?: () => void
+    className?: string
+}
+
+const ErrorState = ({ error, onRetry, className = '' }: Props) => {
+  const { t, describeError } = useTranslation()
+
+  return (
+    <View className={`items-center ${className}`} accessibilityRole="alert">
+      <Text className="text-red-500 text-sm text-center">{describeError(error)}</Text>
+      {onRetry && canRetryManually(error) && (
+        <TouchableOpacity onPress={onRetry} className="mt-3 px-4 py-1.5 rounded-full bg-dark-100">
+          <Text className="text-light-100 text-xs font-semibold">{t('common.tryAgain')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  )
+}
+
+export default ErrorState
@@ -0,0 +1,38 @@
+import { useTranslation } from '@/services/i18n'
+import { ActiveFilterChip } from '@/services/movieFilters'
+import React from 'react'
+import { ScrollView, Text, TouchableOpacity } from 'react-native'
+
+interface Props {
+    chips: ActiveFilterChip[]
+    onRemove: (chip: ActiveFilterChip) => void
+    onClearAll: () => void
+}
+
+const FilterChips = ({ chips, onRemove, onClearAll }: Props) => {
+  const { t } = useTranslation()
+
+  if (chips.length === 0) return null
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+      {chips.map((chip) => (
+        <TouchableOpacity
+          key={chip.key}
+          onPress={() => onRemove(chip)}
+          accessibilityLabel={t('filters.remove', { label: chip.label })}
+          className="flex-row items-center bg-dark-100 rounded-full px-3 py-1.5 mr-2"
+        >
+          <Text className="text-light-100 text-xs font-semibold">{chip.label}</Text>
+          <Text className="text-light-200 text-xs ml-2">✕</Text>
+        </TouchableOpacity>
+      ))}
+
+      <TouchableOpacity onPress={onClearAll} className="px-3 py-1.5">
+        <Text className="text-accent text-xs font-semibold">{t('search.clearAll')}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  )
+}
+
+export default FilterChips
@@ -0,0 +1,198 @@
+import { useTranslation } from '@/services/i18n'
+import {
+  DEFAULT_FILTERS,
+  LANGUAGE_OPTIONS,
+  SORT_OPTIONS,
+  VOTE_AVERAGE_OPTIONS,
+  VOTE_COUNT_OPTIONS,
+} from '@/services/movieFilters'
+import React, { useEffect, useState } from 'react'
+import { Modal, ScrollView, Text, TextInput, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    visible: boolean
+    filters: MovieFilters
+    genres: Genre[]
+    // The user's services, if they've picked any
+    myServices?: MyServices
+    onApply: (filters: MovieFilters) => void
+    onClose: () => void
+}
+
+const Option = ({ label, selected, onPress }: { label: string, selected: boolean, onPress: () => void }) => (
+  <TouchableOpacity
+    onPress={onPress}
+    className={`px-3 py-1.5 rounded-full mr-2 mb-2 ${selected ? 'bg-accent' : 'bg-dark-100'}`}
+  >
+    <Text className={`text-xs font-semibold ${selected ? 'text-primary' : 'text-light-200'}`}>{label}</Text>
+  </TouchableOpacity>
+)
+
+const Section = ({ title, children }: { title: string, children: React.ReactNode }) => (
+  <View className="mt-5">
+    <Text className="text-white font-bold text-base mb-3">{title}</Text>
+    <View className="flex-row flex-wrap">{children}</View>
+  </View>
+)
+
+const parseYear = (text: string) => {
+  const year = parseInt(text, 10)
+  return Number.isFinite(year) && text.length === 4 ? year : undefined
+}
+
+const FilterSheet = ({ visible, filters, genres, myServices, onApply, onClose }: Props) => {
+  const { t } = useTranslation()
+  const [draft, setDraft] = useState<MovieFilters>(filters)
+  const [yearFrom, setYearFrom] = useState('')
+  const [yearTo, setYearTo] = useState('')
+
+  // Start from the applied filters every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters)
+      setYearFrom(filters.yearFrom?.toString() ?? '')
+      setYearTo(filters.yearTo?.toString() ?? '')
+    }
+  }, [visible, filters])
+
+  const toggleGenre = (id: number) => setDraft((current) => ({
+    ...current,
+    genreIds: current.genreIds.includes(id)
+      ? current.genreIds.filter((genreId) => genreId !== id)
+      : [...current.genreIds, id]
+  }))
+
+  const handleApply = () => {
+    let from = parseYear(yearFrom)
+    let to = parseYear(yearTo)
+    if (from !== undefined && to !== undefined && from > to) [from, to] = [to, from]
+
+    onApply({ ...draft, yearFrom: from, yearTo: to })
+  }
+
+  const handleReset = () => {
+    setDraft(DEFAULT_FILTERS)
+    setYearFrom('')
+    setYearTo('')
+  }
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/60">
+        <View className="bg-primary rounded-t-3xl px-5 pt-5 pb-10 max-h-[85%]">
+          <View className="flex-row items-center justify-between">
+            <Text className="text-white font-bold text-xl">{t('search.filters')}</Text>
+            <TouchableOpacity onPress={handleReset}>
+              <Text className="text-accent font-semibold">{t('filters.reset')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Section title={t('filters.genres')}>
+              {genres.map((genre) => (
+                <Option
+                  key={genre.id}
+                  label={genre.name}
+                  selected={draft.genreIds.includes(genre.id)}
+                  onPress={() => toggleGenre(genre.id)}
+                />
+              ))}
+            </Section>
+
+            <Section title={t('filters.releaseYear')}>
+              <TextInput
+                className="bg-dark-200 text-white px-4 py-2 rounded-lg w-24"
+                placeholder={t('filters.from')}
+                placeholderTextColor="#a8b5db"
+                keyboardType="number-pad"
+                maxLength={4}
+                value={yearFrom}
+                onChangeText={setYearFrom}
+              />
+              <Text className="text-light-200 mx-3 self-center">{t('filters.yearSeparator')}</Text>
+              <TextInput
+                className="bg-dark-200 text-white px-4 py-2 rounded-lg w-24"
+                placeholder={t('filters.to')}
+                placeholderTextColor="#a8b5db"
+                keyboardType="number-pad"
+                maxLength={4}
+                value={yearTo}
+                onChangeText={setYearTo}
+              />
+            </Section>
+
+            <Section title={t('filters.minRating')}>
+              <Option label={t('filters.any')} selected={draft.minVoteAverage === undefined} onPress={() => setDraft({ ...draft, minVoteAverage: undefined })} />
+              {VOTE_AVERAGE_OPTIONS.map((value) => (
+                <Option
+                  key={value}
+                  label={`${value}+`}
+                  selected={draft.minVoteAverage === value}
+                  onPress={() => setDraft({ ...draft, minVoteAverage: value })}
+                />
+              ))}
+            </Section>
+
+            <Section title={t('filters.minVotes')}>
+              <Option label={t('filters.any')} selected={draft.minVoteCount === undefined} onPress={() => setDraft({ ...draft, minVoteCount: undefined })} />
+              {VOTE_COUNT_OPTIONS.map((value) => (
+                <Option
+                  key={value}
+                  label={`${value}+`}
+                  selected={draft.minVoteCount === value}
+                  onPress={() => setDraft({ ...draft, minVoteCount: value })}
+                />
+              ))}
+            </Section>
+
+            <Section title={t('filters.language')}>
+              <Option label={t('filters.any')} selected={!draft.language} onPress={() => setDraft({ ...draft, language: undefined })} />
+              {LANGUAGE_OPTIONS.map(({ code, labelKey }) => (
+                <Option
+                  key={code}
+                  label={t(labelKey)}
+                  selected={draft.language === code}
+                  onPress={() => setDraft({ ...draft, language: code })}
+                />
+              ))}
+            </Section>
+
+            <Section title={t('filters.availability')}>
+              {myServices ? (
+                <Option
+                  label={t('home.onlyMyServices')}
+                  selected={!!draft.myServices}
+                  onPress={() => setDraft({ ...draft, myServices: draft.myServices ? undefined : myServices })}
+                />
+              ) : (
+                <Text className="text-light-200 text-xs">{t('filters.pickServices')}</Text>
+              )}
+            </Section>
+
+            <Section title={t('filters.sortBy')}>
+              {SORT_OPTIONS.map(({ value, labelKey }) => (
+                <Option
+                  key={value}
+                  label={t(labelKey)}
+                  selected={draft.sortBy === value}
+                  onPress={() => setDraft({ ...draft, sortBy: value })}
+                />
+              ))}
+            </Section>
+          </ScrollView>
+
+          <View className="flex-row gap-x-3 mt-5">
+            <TouchableOpacity onPress={onClose} className="flex-1 bg-dark-100 rounded-lg py-3.5 items-center">
+              <Text className="text-white font-semibold text-base">{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleApply} className="flex-1 bg-accent rounded-lg py-3.5 items-center">
+              <Text className="text-primary font-semibold text-base">{t('filters.apply')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+export default FilterSheet
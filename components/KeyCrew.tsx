@@ -0,0 +1,37 @@
+import { getKeyCrew } from '@/services/credits'
+import { useTranslation } from '@/services/i18n'
+import { Link } from 'expo-router'
+import React from 'react'
+import { Text, View } from 'react-native'
+
+interface Props {
+    crew: CrewMember[]
+}
+
+const KeyCrew = ({ crew }: Props) => {
+  const { t } = useTranslation()
+  const groups = getKeyCrew(crew)
+  if (groups.length === 0) return null
+
+  return (
+    <View className="flex-row flex-wrap w-full mt-1">
+      {groups.map(({ labelKey, people }) => (
+        <View key={labelKey} className="w-1/2 mt-4 pr-3">
+          <Text className="text-light-200 font-normal text-sm">{t(labelKey)}</Text>
+          <Text className="text-light-100 font-bold text-sm mt-2">
+            {people.map((person, index) => (
+              <React.Fragment key={person.credit_id}>
+                {index > 0 && ', '}
+                <Link href={`/people/${person.id}`} push className="text-light-100 underline">
+                  {person.name}
+                </Link>
+              </React.Fragment>
+            ))}
+          </Text>
+        </View>
+      ))}
+    </View>
+  )
+}
+
+export default KeyCrew
@@ -0,0 +1,45 @@
+import { useTranslation } from '@/services/i18n'
+import { LOCALE_OPTIONS } from '@/services/locale'
+import { usePreferences } from '@/services/PreferencesContext'
+import React from 'react'
+import { Alert, Text, TouchableOpacity, View } from 'react-native'
+
+const LanguagePreference = () => {
+  const { updatePreferences } = usePreferences()
+  const { t, describeError, locale } = useTranslation()
+
+  const select = async (code: string) => {
+    try {
+      await updatePreferences({ locale: code })
+    } catch (error) {
+      Alert.alert(t('profile.saveFailed'), describeError(error))
+    }
+  }
+
+  return (
+    <View className="w-full mb-8">
+      <Text className="text-white font-bold text-lg mb-3">{t('profile.language')}</Text>
+
+      <View className="flex-row flex-wrap">
+        {/* A device locale that isn't listed still works; it just shows no selection */}
+        {LOCALE_OPTIONS.map(({ code, label }) => {
+          const selected = code === locale
+
+          return (
+            <TouchableOpacity
+              key={code}
+              onPress={() => select(code)}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+              className={`px-3 py-1.5 rounded-full mr-2 mb-2 ${selected ? 'bg-accent' : 'bg-dark-100'}`}
+            >
+              <Text className={`text-xs font-semibold ${selected ? 'text-primary' : 'text-light-200'}`}>{label}</Text>
+            </TouchableOpacity>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
+
+export default LanguagePreference
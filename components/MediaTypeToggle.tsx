@@ -0,0 +1,38 @@
+import { useTranslation } from '@/services/i18n'
+import { MEDIA_TYPES } from '@/services/media'
+import React from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    value: MediaType
+    onChange: (mediaType: MediaType) => void
+    className?: string
+}
+
+const MediaTypeToggle = ({ value, onChange, className = '' }: Props) => {
+  const { t } = useTranslation()
+
+  return (
+    <View className={`flex-row gap-x-2 ${className}`}>
+      {MEDIA_TYPES.map((option) => {
+        const selected = option.value === value
+
+        return (
+          <TouchableOpacity
+            key={option.value}
+            onPress={() => onChange(option.value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+            className={`px-4 py-1.5 rounded-full ${selected ? 'bg-accent' : 'bg-dark-100'}`}
+          >
+            <Text className={`text-xs font-semibold ${selected ? 'text-primary' : 'text-light-200'}`}>
+              {t(option.labelKey)}
+            </Text>
+          </TouchableOpacity>
+        )
+      })}
+    </View>
+  )
+}
+
+export default MediaTypeToggle
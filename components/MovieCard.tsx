@@ -2,12 +2,19 @@ import { icons } from '@/constants/icons'
 import { Link } from 'expo-router'
 import React from 'react'
 import { Image, Text, TouchableOpacity, View } from 'react-native'
+import SaveButton from './SaveButton'
 
-const MovieCard = ({id, poster_path, title, vote_average, release_date, popularity}: Movie) => {
+interface Props extends Movie {
+    className?: string
+    onPress?: () => void
+}
+
+const MovieCard = ({id, poster_path, title, vote_average, release_date, popularity, className = 'w-[30%]', onPress}: Props) => {
     
+  // Always push, so opening a movie from another movie's page keeps the back stack
   return (
-    <Link href={`/movies/${id}`} asChild>
-        <TouchableOpacity className="w-[30%]">
+    <Link href={`/movies/${id}`} onPress={onPress} push asChild>
+        <TouchableOpacity className={className}>
             <Image
                 source={{
                     uri: poster_path
@@ -18,6 +25,11 @@ const MovieCard = ({id, poster_path, title, vote_average, release_date, populari
                 resizeMode="cover"
             />
 
+            <SaveButton
+                movie={{ id, title, poster_path, vote_average, release_date }}
+                className="absolute top-2 right-2"
+            />
+
             <Text className="text-sm font-bold text-white mt-2" numberOfLines={1}>{title}</Text>
 
             <View className="flex-row items-center justify-start gap-x-1">
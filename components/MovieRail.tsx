@@ -0,0 +1,30 @@
+import React from 'react'
+import { FlatList, Text, View } from 'react-native'
+import MovieCard from './MovieCard'
+
+interface Props {
+    title: string
+    movies: Movie[]
+    excludeId?: number
+}
+
+const MovieRail = ({ title, movies, excludeId }: Props) => {
+  const data = movies.filter((movie) => movie.id !== excludeId)
+  if (data.length === 0) return null
+
+  return (
+    <View className="mt-8 w-full">
+      <Text className="text-lg text-white font-bold mb-3">{title}</Text>
+      <FlatList
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        data={data}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={({ item }) => <MovieCard {...item} className="w-32" />}
+        ItemSeparatorComponent={() => <View className="w-4" />}
+      />
+    </View>
+  )
+}
+
+export default MovieRail
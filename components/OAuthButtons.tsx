@@ -0,0 +1,58 @@
+import React from 'react';
+import { TouchableOpacity, Text, Image, View } from 'react-native';
+import { useTranslation } from '@/services/i18n';
+import { OAUTH_PROVIDERS, OAuthProviderConfig } from '@/services/oauthProviders';
+
+interface OAuthButtonsProps {
+  onSelect: (provider: OAuthProviderConfig) => void;
+  disabled?: boolean;
+}
+
+// One "Sign in with ..." button per provider in the registry
+export default function OAuthButtons({ onSelect, disabled = false }: OAuthButtonsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <View>
+      {OAUTH_PROVIDERS.map((provider) => {
+        const { label, icon, backgroundColor, textColor, borderColor } = provider.branding;
+
+        return (
+          <TouchableOpacity
+            key={provider.id}
+            onPress={() => onSelect(provider)}
+            disabled={disabled}
+            accessibilityRole="button"
+            accessibilityLabel={t('auth.signInWith', { provider: label })}
+            className={`
+              flex-row items-center justify-center
+              rounded-lg py-3 px-4 mb-3
+              ${disabled ? 'opacity-50' : ''}
+            `}
+            style={{
+              backgroundColor,
+              borderColor: borderColor ?? backgroundColor,
+              borderWidth: 1,
+              shadowColor: '#000',
+              shadowOffset: { width: 0, height: 1 },
+              shadowOpacity: 0.1,
+              shadowRadius: 2,
+              elevation: 2,
+            }}
+          >
+            {icon && (
+              <Image
+                source={icon}
+                className="w-6 h-6 mr-3"
+                style={{ objectFit: 'contain' }}
+              />
+            )}
+            <Text className="font-medium text-base" style={{ color: textColor }}>
+              {t('auth.signInWith', { provider: label })}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
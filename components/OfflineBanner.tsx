@@ -0,0 +1,19 @@
+import { useTranslation } from '@/services/i18n'
+import React from 'react'
+import { Text, View } from 'react-native'
+
+const OfflineBanner = ({ visible }: { visible: boolean }) => {
+  const { t } = useTranslation()
+
+  if (!visible) return null
+
+  return (
+    <View className="bg-dark-100 rounded-lg px-4 py-2 mt-3" accessibilityRole="alert">
+      <Text className="text-light-100 text-xs font-semibold text-center">
+        {t('common.offline')}
+      </Text>
+    </View>
+  )
+}
+
+export default OfflineBanner
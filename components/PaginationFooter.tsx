@@ -0,0 +1,44 @@
+import { useTranslation } from '@/services/i18n'
+import React from 'react'
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    loadingMore: boolean
+    isEnd: boolean
+    endLabel?: string
+    error?: Error | null
+    onRetry?: () => void
+}
+
+const PaginationFooter = ({ loadingMore, isEnd, endLabel, error, onRetry }: Props) => {
+  const { t, describeError } = useTranslation()
+
+  if (loadingMore) {
+    return <ActivityIndicator size="small" color="#ab8bff" className="my-5" />
+  }
+
+  if (error) {
+    return (
+      <View className="my-5 items-center">
+        <Text className="text-red-500 text-xs">{t('common.loadMoreFailed', { message: describeError(error) })}</Text>
+        {onRetry && (
+          <TouchableOpacity onPress={onRetry} className="mt-2 px-4 py-1.5 rounded-full bg-dark-100">
+            <Text className="text-light-100 text-xs font-semibold">{t('common.tryAgain')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    )
+  }
+
+  if (isEnd) {
+    return (
+      <View className="my-5 items-center">
+        <Text className="text-light-300 text-xs">{endLabel ?? t('common.endOfList')}</Text>
+      </View>
+    )
+  }
+
+  return null
+}
+
+export default PaginationFooter
@@ -0,0 +1,32 @@
+import { Link } from 'expo-router'
+import React from 'react'
+import { Image, Text, TouchableOpacity } from 'react-native'
+
+interface Props {
+    id: number
+    name: string
+    subtitle?: string
+    profile_path: string | null
+}
+
+const PersonCard = ({ id, name, subtitle, profile_path }: Props) => (
+  <Link href={`/people/${id}`} push asChild>
+    <TouchableOpacity className="w-24">
+      <Image
+        source={{
+          uri: profile_path
+            ? `https://image.tmdb.org/t/p/w185${profile_path}`
+            : 'https://placehold.co/185x278/1a1a1a/ffffff.png'
+        }}
+        className="w-24 h-32 rounded-lg"
+        resizeMode="cover"
+      />
+      <Text className="text-white text-xs font-bold mt-2" numberOfLines={2}>{name}</Text>
+      {!!subtitle && (
+        <Text className="text-light-200 text-[10px] mt-0.5" numberOfLines={2}>{subtitle}</Text>
+      )}
+    </TouchableOpacity>
+  </Link>
+)
+
+export default PersonCard
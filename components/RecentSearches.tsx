@@ -0,0 +1,47 @@
+import { useTranslation } from '@/services/i18n'
+import React from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    searches: string[]
+    onSelect: (search: string) => void
+    onRemove: (search: string) => void
+    onClearAll: () => void
+}
+
+const RecentSearches = ({ searches, onSelect, onRemove, onClearAll }: Props) => {
+  const { t } = useTranslation()
+
+  if (searches.length === 0) return null
+
+  return (
+    <View className="mb-5">
+      <View className="flex-row items-center justify-between mb-3">
+        <Text className="text-lg text-white font-bold">{t('search.recent')}</Text>
+        <TouchableOpacity onPress={onClearAll}>
+          <Text className="text-accent text-xs font-semibold">{t('search.clearAll')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View className="flex-row flex-wrap">
+        {searches.map((search) => (
+          <View key={search} className="flex-row items-center bg-dark-100 rounded-full mr-2 mb-2">
+            <TouchableOpacity onPress={() => onSelect(search)} className="pl-3 py-1.5">
+              <Text className="text-light-100 text-xs font-semibold">{search}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onRemove(search)}
+              hitSlop={6}
+              accessibilityLabel={`Remove ${search} from recent searches`}
+              className="pl-2 pr-3 py-1.5"
+            >
+              <Text className="text-light-200 text-xs">✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    </View>
+  )
+}
+
+export default RecentSearches
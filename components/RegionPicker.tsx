@@ -0,0 +1,70 @@
+import { useTranslation } from '@/services/i18n'
+import React, { useMemo, useState } from 'react'
+import { FlatList, Modal, Text, TextInput, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    visible: boolean
+    regions: WatchRegion[]
+    selected: string
+    onSelect: (region: string) => void
+    onClose: () => void
+}
+
+const RegionPicker = ({ visible, regions, selected, onSelect, onClose }: Props) => {
+  const { t } = useTranslation()
+  const [query, setQuery] = useState('')
+
+  const matching = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    if (!needle) return regions
+
+    return regions.filter((region) =>
+      region.english_name.toLowerCase().includes(needle) ||
+      region.native_name.toLowerCase().includes(needle) ||
+      region.iso_3166_1.toLowerCase() === needle
+    )
+  }, [regions, query])
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/60">
+        <View className="bg-primary rounded-t-3xl px-5 pt-5 pb-10 h-[75%]">
+          <View className="flex-row items-center justify-between">
+            <Text className="text-white font-bold text-xl">{t('profile.region')}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text className="text-accent font-semibold">{t('common.done')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <TextInput
+            className="bg-dark-200 text-white px-4 py-3 rounded-lg mt-4"
+            placeholder={t('profile.searchCountries')}
+            placeholderTextColor="#a8b5db"
+            value={query}
+            onChangeText={setQuery}
+          />
+
+          <FlatList
+            data={matching}
+            keyExtractor={(item) => item.iso_3166_1}
+            className="mt-3"
+            keyboardShouldPersistTaps="handled"
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                onPress={() => onSelect(item.iso_3166_1)}
+                className="flex-row items-center justify-between py-3 border-b border-dark-100"
+              >
+                <Text className={`text-sm ${item.iso_3166_1 === selected ? 'text-accent font-bold' : 'text-light-100'}`}>
+                  {item.english_name}
+                </Text>
+                <Text className="text-light-300 text-xs">{item.iso_3166_1}</Text>
+              </TouchableOpacity>
+            )}
+          />
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+export default RegionPicker
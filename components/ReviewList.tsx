@@ -0,0 +1,52 @@
+import { useTranslation } from '@/services/i18n'
+import { formatDate } from '@/services/locale'
+import React, { useState } from 'react'
+import { Text, TouchableOpacity, View } from 'react-native'
+import StarRating from './StarRating'
+
+interface Props {
+    reviews: MovieReview[]
+}
+
+const ReviewItem = ({ review }: { review: MovieReview }) => {
+  const { t, locale } = useTranslation()
+  const [revealed, setRevealed] = useState(false)
+  const hidden = review.spoiler && !revealed
+
+  return (
+    <View className="bg-dark-100 rounded-lg p-3 mt-3">
+      <View className="flex-row items-center justify-between">
+        <Text className="text-white font-bold text-sm flex-1 mr-3" numberOfLines={1}>{review.user_name}</Text>
+        <StarRating value={review.rating} size={12} />
+      </View>
+      <Text className="text-light-300 text-[10px] mt-1">
+        {formatDate(locale, review.$updatedAt, { dateStyle: 'medium' })}
+      </Text>
+
+      {hidden ? (
+        <TouchableOpacity onPress={() => setRevealed(true)} className="mt-2">
+          <Text className="text-accent text-xs font-semibold">{t('reviews.showSpoilers')}</Text>
+        </TouchableOpacity>
+      ) : (
+        <Text className="text-light-100 text-sm mt-2">{review.review}</Text>
+      )}
+    </View>
+  )
+}
+
+const ReviewList = ({ reviews }: Props) => {
+  const { t } = useTranslation()
+
+  if (reviews.length === 0) return null
+
+  return (
+    <View className="mt-5 w-full">
+      <Text className="text-light-200 font-normal text-sm">{t('reviews.recent')}</Text>
+      {reviews.map((review) => (
+        <ReviewItem key={review.$id} review={review} />
+      ))}
+    </View>
+  )
+}
+
+export default ReviewList
@@ -0,0 +1,88 @@
+import { useTranslation } from '@/services/i18n'
+import React, { useEffect, useState } from 'react'
+import { ActivityIndicator, Modal, Switch, Text, TextInput, TouchableOpacity, View } from 'react-native'
+import StarRating from './StarRating'
+
+interface Props {
+    visible: boolean
+    title: string
+    existing: MovieReview | null
+    saving: boolean
+    onSave: (input: ReviewInput) => void
+    onDelete: () => void
+    onClose: () => void
+}
+
+const ReviewSheet = ({ visible, title, existing, saving, onSave, onDelete, onClose }: Props) => {
+  const { t } = useTranslation()
+  const [rating, setRating] = useState(0)
+  const [review, setReview] = useState('')
+  const [spoiler, setSpoiler] = useState(false)
+
+  // Start from the saved review every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setRating(existing?.rating ?? 0)
+      setReview(existing?.review ?? '')
+      setSpoiler(existing?.spoiler ?? false)
+    }
+  }, [visible, existing])
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/60">
+        <View className="bg-primary rounded-t-3xl px-5 pt-5 pb-10">
+          <Text className="text-white font-bold text-xl" numberOfLines={1}>{title}</Text>
+
+          <Text className="text-light-200 text-sm mt-5 mb-3">{t('reviews.yourRating')}</Text>
+          <StarRating value={rating} onChange={setRating} size={32} />
+
+          <Text className="text-light-200 text-sm mt-5 mb-3">{t('reviews.reviewOptional')}</Text>
+          <TextInput
+            className="bg-dark-200 text-white px-4 py-3 rounded-lg min-h-28"
+            placeholder={t('reviews.placeholder')}
+            placeholderTextColor="#a8b5db"
+            multiline
+            textAlignVertical="top"
+            maxLength={2000}
+            value={review}
+            onChangeText={setReview}
+          />
+
+          <View className="flex-row items-center justify-between mt-4">
+            <Text className="text-light-100 text-sm">{t('reviews.spoilers')}</Text>
+            <Switch
+              value={spoiler}
+              onValueChange={setSpoiler}
+              disabled={!review.trim()}
+              trackColor={{ true: '#AB8BFF', false: '#221f3d' }}
+            />
+          </View>
+
+          <View className="flex-row gap-x-3 mt-6">
+            {existing ? (
+              <TouchableOpacity onPress={onDelete} disabled={saving} className="flex-1 bg-red-500 rounded-lg py-3.5 items-center">
+                <Text className="text-white font-semibold text-base">{t('common.delete')}</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity onPress={onClose} className="flex-1 bg-dark-100 rounded-lg py-3.5 items-center">
+                <Text className="text-white font-semibold text-base">{t('common.cancel')}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => onSave({ rating, review: review.trim() || null, spoiler })}
+              disabled={saving || rating === 0}
+              className={`flex-1 rounded-lg py-3.5 items-center ${rating === 0 ? 'bg-dark-100' : 'bg-accent'}`}
+            >
+              {saving
+                ? <ActivityIndicator size="small" color="#030014" />
+                : <Text className={`font-semibold text-base ${rating === 0 ? 'text-light-300' : 'text-primary'}`}>{t('common.save')}</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+export default ReviewSheet
@@ -0,0 +1,48 @@
+import { icons } from '@/constants/icons'
+import { useTranslation } from '@/services/i18n'
+import { mediaTypeOf } from '@/services/media'
+import { useWatchlist } from '@/services/WatchlistContext'
+import React from 'react'
+import { Alert, Image, Text, TouchableOpacity } from 'react-native'
+
+interface Props {
+    movie: SaveableMovie
+    showLabel?: boolean
+    className?: string
+}
+
+const SaveButton = ({ movie, showLabel = false, className = '' }: Props) => {
+  const { isSaved, toggleSaved } = useWatchlist()
+  const { t, describeError } = useTranslation()
+  const saved = isSaved(movie.id, mediaTypeOf(movie))
+
+  const handlePress = async () => {
+    try {
+      await toggleSaved(movie)
+    } catch (error) {
+      Alert.alert(
+        saved ? t('saved.removeFailed') : t('watchlist.saveFailed'),
+        describeError(error)
+      )
+    }
+  }
+
+  return (
+    <TouchableOpacity
+      onPress={handlePress}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={t(saved ? 'watchlist.removeLabel' : 'watchlist.saveLabel', { title: movie.title })}
+      className={`flex-row items-center justify-center rounded-full ${saved ? 'bg-accent' : 'bg-dark-100/80'} ${showLabel ? 'px-4 py-2' : 'p-1.5'} ${className}`}
+    >
+      <Image source={icons.save} className={showLabel ? 'size-4' : 'size-3.5'} tintColor={saved ? '#030014' : '#fff'} />
+      {showLabel && (
+        <Text className={`ml-2 font-semibold text-sm ${saved ? 'text-primary' : 'text-white'}`}>
+          {saved ? t('watchlist.saved') : t('watchlist.save')}
+        </Text>
+      )}
+    </TouchableOpacity>
+  )
+}
+
+export default SaveButton
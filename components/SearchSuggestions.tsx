@@ -0,0 +1,29 @@
+import { icons } from '@/constants/icons'
+import React from 'react'
+import { Image, Text, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    suggestions: string[]
+    onSelect: (suggestion: string) => void
+}
+
+const SearchSuggestions = ({ suggestions, onSelect }: Props) => {
+  if (suggestions.length === 0) return null
+
+  return (
+    <View className="mb-4 bg-dark-200 rounded-2xl px-4 py-1">
+      {suggestions.map((suggestion) => (
+        <TouchableOpacity
+          key={suggestion}
+          onPress={() => onSelect(suggestion)}
+          className="flex-row items-center py-2.5"
+        >
+          <Image source={icons.search} className="size-3.5" tintColor="#a8b5db" />
+          <Text className="text-light-100 text-sm ml-3" numberOfLines={1}>{suggestion}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  )
+}
+
+export default SearchSuggestions
@@ -0,0 +1,41 @@
+import { icons } from '@/constants/icons'
+import React from 'react'
+import { Image, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    // 0 to 5 in half-star steps
+    value: number
+    onChange?: (value: number) => void
+    size?: number
+}
+
+const STARS = [1, 2, 3, 4, 5]
+
+const StarRating = ({ value, onChange, size = 20 }: Props) => (
+  <View className="flex-row items-center" accessibilityRole={onChange ? 'adjustable' : 'text'} accessibilityLabel={`${value} out of 5 stars`}>
+    {STARS.map((star) => {
+      const fill = Math.max(0, Math.min(1, value - (star - 1)))
+
+      return (
+        <View key={star} style={{ width: size, height: size, marginRight: 4 }}>
+          <Image source={icons.star} style={{ width: size, height: size }} tintColor="#221f3d" />
+          {fill > 0 && (
+            <View className="absolute top-0 left-0 overflow-hidden" style={{ width: size * fill, height: size }}>
+              <Image source={icons.star} style={{ width: size, height: size }} />
+            </View>
+          )}
+
+          {/* Each half of a star is its own target, which is what gives half-star steps */}
+          {onChange && (
+            <View className="absolute inset-0 flex-row">
+              <TouchableOpacity className="flex-1" onPress={() => onChange(star - 0.5)} accessibilityLabel={`${star - 0.5} stars`} />
+              <TouchableOpacity className="flex-1" onPress={() => onChange(star)} accessibilityLabel={`${star} stars`} />
+            </View>
+          )}
+        </View>
+      )
+    })}
+  </View>
+)
+
+export default StarRating
@@ -0,0 +1,96 @@
+import { fetchProviderCatalog, fetchWatchRegions } from '@/services/api'
+import { useTranslation } from '@/services/i18n'
+import { usePreferences } from '@/services/PreferencesContext'
+import { queryKeys } from '@/services/queryKeys'
+import useQuery from '@/services/useQuery'
+import React, { useState } from 'react'
+import { ActivityIndicator, Alert, Image, Text, TouchableOpacity, View } from 'react-native'
+import RegionPicker from './RegionPicker'
+
+// The catalog runs to hundreds of services; the most popular ones cover nearly everyone
+const MAX_SERVICES = 24
+
+const StreamingPreferences = () => {
+  const { preferences, region, updatePreferences } = usePreferences()
+  const { t, describeError, locale } = useTranslation()
+  const [pickerVisible, setPickerVisible] = useState(false)
+
+  const { data: regions } = useQuery(queryKeys.watchRegions(locale), fetchWatchRegions)
+  const { data: catalog, loading } = useQuery(
+    queryKeys.providerCatalog(region, locale),
+    (signal) => fetchProviderCatalog(region, signal)
+  )
+
+  const selectedIds = preferences.providerIds ?? []
+  const regionName = regions?.find((item) => item.iso_3166_1 === region)?.english_name ?? region
+
+  const save = async (changes: Partial<UserPreferences>) => {
+    try {
+      await updatePreferences(changes)
+    } catch (error) {
+      Alert.alert(t('profile.saveFailed'), describeError(error))
+    }
+  }
+
+  const toggleService = (providerId: number) => save({
+    providerIds: selectedIds.includes(providerId)
+      ? selectedIds.filter((id) => id !== providerId)
+      : [...selectedIds, providerId]
+  })
+
+  return (
+    <View className="w-full mb-8">
+      <Text className="text-white font-bold text-lg mb-3">{t('profile.streaming')}</Text>
+
+      <TouchableOpacity
+        onPress={() => setPickerVisible(true)}
+        className="flex-row items-center justify-between bg-dark-100 rounded-lg px-4 py-3"
+      >
+        <Text className="text-light-200 text-sm">{t('profile.region')}</Text>
+        <Text className="text-white font-semibold text-sm">{regionName}</Text>
+      </TouchableOpacity>
+
+      <Text className="text-light-200 text-sm mt-5 mb-3">{t('profile.myServices')}</Text>
+
+      {loading ? (
+        <ActivityIndicator size="small" color="#0000ff" className="self-start" />
+      ) : (
+        <View className="flex-row flex-wrap">
+          {(catalog ?? []).slice(0, MAX_SERVICES).map((provider) => {
+            const selected = selectedIds.includes(provider.provider_id)
+
+            return (
+              <TouchableOpacity
+                key={provider.provider_id}
+                onPress={() => toggleService(provider.provider_id)}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+                accessibilityLabel={provider.provider_name}
+                className={`mr-2 mb-2 p-0.5 rounded-xl ${selected ? 'bg-accent' : 'bg-transparent'}`}
+              >
+                <Image
+                  source={{ uri: `https://image.tmdb.org/t/p/w92${provider.logo_path}` }}
+                  className={`size-12 rounded-lg ${selected ? '' : 'opacity-50'}`}
+                  resizeMode="cover"
+                />
+              </TouchableOpacity>
+            )
+          })}
+        </View>
+      )}
+
+      <RegionPicker
+        visible={pickerVisible}
+        regions={regions ?? []}
+        selected={region}
+        onSelect={(next) => {
+          setPickerVisible(false)
+          save({ region: next })
+        }}
+        onClose={() => setPickerVisible(false)}
+      />
+    </View>
+  )
+}
+
+export default StreamingPreferences
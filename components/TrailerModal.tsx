@@ -0,0 +1,41 @@
+import { useTranslation } from '@/services/i18n'
+import { getEmbedUrl } from '@/services/videos'
+import React from 'react'
+import { Modal, Text, TouchableOpacity, View } from 'react-native'
+import { WebView } from 'react-native-webview'
+
+interface Props {
+    video: MovieVideo | null
+    onClose: () => void
+}
+
+const TrailerModal = ({ video, onClose }: Props) => {
+  const { t } = useTranslation()
+
+  return (
+    <Modal visible={!!video} animationType="fade" transparent onRequestClose={onClose}>
+      <View className="flex-1 justify-center bg-black/90 px-3">
+        <View className="flex-row items-center justify-between mb-3">
+          <Text className="text-white font-bold text-base flex-1 mr-3" numberOfLines={1}>{video?.name}</Text>
+          <TouchableOpacity onPress={onClose} hitSlop={8} accessibilityLabel={t('movie.closePlayer')}>
+            <Text className="text-white text-xl">✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        {video && (
+          <View className="w-full aspect-video rounded-lg overflow-hidden bg-black">
+            <WebView
+              source={{ uri: getEmbedUrl(video) }}
+              allowsFullscreenVideo
+              allowsInlineMediaPlayback
+              mediaPlaybackRequiresUserAction={false}
+              javaScriptEnabled
+            />
+          </View>
+        )}
+      </View>
+    </Modal>
+  )
+}
+
+export default TrailerModal
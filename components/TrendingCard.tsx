@@ -1,16 +1,19 @@
 import { images } from '@/constants/images'
+import { mediaHref, mediaTypeOf } from '@/services/media'
 import MaskedView from '@react-native-masked-view/masked-view'
 import { Link } from 'expo-router'
 import React from 'react'
 import { Image, Text, TouchableOpacity, View } from 'react-native'
 
-const TrendingCard = ({movie: {movie_id, title, poster_url}, index}: TrendingCardProps) => {
+const TrendingCard = ({movie, index}: TrendingCardProps) => {
+  const {movie_id, title, poster_path} = movie
+
   return (
-    <Link href={`/movies/${movie_id}`} asChild>
+    <Link href={mediaHref(mediaTypeOf(movie), movie_id)} asChild>
         <TouchableOpacity className='w-32 relative pl-5'>
             <Image
-                source={{uri: poster_url 
-                    ? `https://image.tmdb.org/t/p/w500${poster_url}`
+                source={{uri: poster_path
+                    ? `https://image.tmdb.org/t/p/w500${poster_path}`
                     : 'https://placehold.co/600x400/1a1a1a/ffffff.png'}}
                 className="w-32 h-48 rounded-lg"
                 resizeMode="cover"
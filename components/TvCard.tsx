@@ -0,0 +1,54 @@
+import { icons } from '@/constants/icons'
+import { tvShowToSaveable } from '@/services/media'
+import { Link } from 'expo-router'
+import React from 'react'
+import { Image, Text, TouchableOpacity, View } from 'react-native'
+import SaveButton from './SaveButton'
+
+interface Props extends TvShow {
+    className?: string
+    onPress?: () => void
+}
+
+const TvCard = ({className = 'w-[30%]', onPress, ...show}: Props) => {
+  const {id, poster_path, name, vote_average, first_air_date} = show
+
+  return (
+    <Link href={`/tv/${id}`} onPress={onPress} push asChild>
+        <TouchableOpacity className={className}>
+            <Image
+                source={{
+                    uri: poster_path
+                        ? `https://image.tmdb.org/t/p/w500${poster_path}`
+                        : 'https://placehold.co/600x400/1a1a1a/ffffff.png'
+                }}
+                className="w-full h-52 rounded-lg"
+                resizeMode="cover"
+            />
+
+            <SaveButton
+                movie={tvShowToSaveable(show)}
+                className="absolute top-2 right-2"
+            />
+
+            <Text className="text-sm font-bold text-white mt-2" numberOfLines={1}>{name}</Text>
+
+            <View className="flex-row items-center justify-start gap-x-1">
+                <Image source={icons.star} className="size-4"/>
+                <Text className="text-xs text-white font-bold uppercase">{Math.round(vote_average / 2)}</Text>
+            </View>
+
+            <View className="flex-row items-center justify-between">
+                <Text className="text-xs text-light-300 font-medium mt-1">
+                    {first_air_date?.split('-')[0]}
+                </Text>
+                <Text className="text-xs font-medium text-light-300 uppercase mt-1">
+                    TV
+                </Text>
+            </View>
+        </TouchableOpacity>
+    </Link>
+  )
+}
+
+export default TvCard
@@ -0,0 +1,52 @@
+import { useAuth } from '@/services/AuthContext'
+import { useTranslation } from '@/services/i18n'
+import useCooldown from '@/services/useCooldown'
+import React, { useState } from 'react'
+import { Alert, Text, TouchableOpacity, View } from 'react-native'
+
+// Appwrite rate-limits verification emails, so don't offer to send another
+// straight away
+const RESEND_COOLDOWN_SECONDS = 60
+
+const VerifyEmailBanner = () => {
+  const { user, emailVerified, sendVerificationEmail } = useAuth()
+  const { t, describeError } = useTranslation()
+  const [sending, setSending] = useState(false)
+  const { remaining: cooldown, start: startCooldown } = useCooldown()
+
+  if (!user || emailVerified) return null
+
+  const resend = async () => {
+    try {
+      setSending(true)
+      await sendVerificationEmail()
+      startCooldown(RESEND_COOLDOWN_SECONDS)
+      Alert.alert(t('verify.sent'))
+    } catch (error) {
+      Alert.alert(t('verify.sendFailed'), describeError(error))
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const disabled = sending || cooldown > 0
+
+  return (
+    <View className="w-full mb-8 p-4 rounded-xl bg-dark-100" accessibilityRole="alert">
+      <Text className="text-light-100 text-sm mb-3">{t('verify.unverified')}</Text>
+      <TouchableOpacity
+        onPress={resend}
+        disabled={disabled}
+        accessibilityRole="button"
+        accessibilityState={{ disabled }}
+        className={`self-start px-3 py-1.5 rounded-full ${disabled ? 'bg-dark-200' : 'bg-accent'}`}
+      >
+        <Text className={`text-xs font-semibold ${disabled ? 'text-light-200' : 'text-primary'}`}>
+          {cooldown > 0 ? t('verify.resendIn', { seconds: cooldown }) : t('verify.resend')}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  )
+}
+
+export default VerifyEmailBanner
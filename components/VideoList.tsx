@@ -0,0 +1,47 @@
+import { icons } from '@/constants/icons'
+import { useTranslation } from '@/services/i18n'
+import { getThumbnailUrl } from '@/services/videos'
+import React from 'react'
+import { FlatList, Image, Text, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    videos: MovieVideo[]
+    onSelect: (video: MovieVideo) => void
+}
+
+const VideoList = ({ videos, onSelect }: Props) => {
+  const { t } = useTranslation()
+
+  if (videos.length === 0) return null
+
+  return (
+    <View className="mt-5 w-full">
+      <Text className="text-light-200 font-normal text-sm mb-3">{t('movie.videos')}</Text>
+      <FlatList
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        data={videos}
+        keyExtractor={(item) => item.id}
+        ItemSeparatorComponent={() => <View className="w-3" />}
+        renderItem={({ item }) => (
+          <TouchableOpacity className="w-48" onPress={() => onSelect(item)}>
+            <View>
+              <Image
+                source={{ uri: getThumbnailUrl(item) }}
+                className="w-48 h-28 rounded-lg"
+                resizeMode="cover"
+              />
+              <View className="absolute inset-0 items-center justify-center">
+                <Image source={icons.play} className="size-8" tintColor="#fff" />
+              </View>
+            </View>
+            <Text className="text-white text-xs font-bold mt-2" numberOfLines={2}>{item.name}</Text>
+            <Text className="text-light-200 text-[10px] mt-0.5">{item.type}</Text>
+          </TouchableOpacity>
+        )}
+      />
+    </View>
+  )
+}
+
+export default VideoList
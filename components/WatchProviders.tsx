@@ -0,0 +1,56 @@
+import { useTranslation } from '@/services/i18n'
+import { groupProviders } from '@/services/watchProviders'
+import React from 'react'
+import { Image, Linking, ScrollView, Text, TouchableOpacity, View } from 'react-native'
+
+interface Props {
+    availability: WatchProviderAvailability | undefined
+    region: string
+}
+
+const WatchProviders = ({ availability, region }: Props) => {
+  const { t } = useTranslation()
+  const groups = groupProviders(availability)
+
+  return (
+    <View className="mt-5 w-full">
+      <Text className="text-light-200 font-normal text-sm">{t('watch.title', { region })}</Text>
+
+      {groups.length === 0 ? (
+        <Text className="text-light-100 font-bold text-sm mt-2">{t('watch.unavailable')}</Text>
+      ) : (
+        groups.map((group) => (
+          <View key={group.key} className="mt-3">
+            <Text className="text-light-100 font-bold text-xs mb-2">{t(group.labelKey)}</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {group.providers.map((provider) => (
+                // TMDB only links to its own availability page, not to each service
+                <TouchableOpacity
+                  key={provider.provider_id}
+                  onPress={() => availability && Linking.openURL(availability.link)}
+                  accessibilityLabel={t('watch.providerLabel', { group: t(group.labelKey), provider: provider.provider_name })}
+                  className="mr-3 items-center w-16"
+                >
+                  <Image
+                    source={{ uri: `https://image.tmdb.org/t/p/w92${provider.logo_path}` }}
+                    className="size-12 rounded-lg"
+                    resizeMode="cover"
+                  />
+                  <Text className="text-light-200 text-[10px] mt-1 text-center" numberOfLines={2}>
+                    {provider.provider_name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        ))
+      )}
+
+      {groups.length > 0 && (
+        <Text className="text-light-300 text-[10px] mt-2">{t('watch.attribution')}</Text>
+      )}
+    </View>
+  )
+}
+
+export default WatchProviders
@@ -0,0 +1,79 @@
+import { icons } from '@/constants/icons'
+import { deleteReview, getUserReview, saveReview } from '@/services/appwrite'
+import { useAuth } from '@/services/AuthContext'
+import { useTranslation } from '@/services/i18n'
+import { invalidateQueries } from '@/services/queryCache'
+import { queryKeys } from '@/services/queryKeys'
+import useQuery from '@/services/useQuery'
+import React, { useState } from 'react'
+import { Alert, Image, Text, TouchableOpacity } from 'react-native'
+import ReviewSheet from './ReviewSheet'
+
+interface Props {
+    movieId: number
+    title: string
+}
+
+const YourRating = ({ movieId, title }: Props) => {
+  const { user, emailVerified } = useAuth()
+  const { t, describeError } = useTranslation()
+  const [sheetVisible, setSheetVisible] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const { data: review } = useQuery(
+    queryKeys.userReview(String(movieId), user?.$id ?? ''),
+    () => getUserReview(user!.$id, movieId),
+    { enabled: !!user }
+  )
+
+  if (!user) return null
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      setSaving(true)
+      await action()
+      setSheetVisible(false)
+      invalidateQueries(queryKeys.reviews(String(movieId)))
+    } catch (error) {
+      Alert.alert(failure, describeError(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openSheet = () => {
+    // Reviews feed the public rating, so unverified accounts can't add one
+    if (!emailVerified) {
+      Alert.alert(t('verify.required'))
+      return
+    }
+    setSheetVisible(true)
+  }
+
+  return (
+    <>
+      <TouchableOpacity
+        onPress={openSheet}
+        accessibilityLabel={review ? t('reviews.yoursLabel', { rating: review.rating }) : t('reviews.rateLabel')}
+        className={`flex-row items-center px-2 py-1 rounded-md gap-x-1 ${review ? 'bg-accent' : 'bg-dark-100'}`}
+      >
+        <Image source={icons.star} className="size-4" tintColor={review ? '#030014' : undefined} />
+        <Text className={`font-bold text-sm ${review ? 'text-primary' : 'text-white'}`}>
+          {review ? t('reviews.yours', { rating: review.rating }) : t('reviews.rate')}
+        </Text>
+      </TouchableOpacity>
+
+      <ReviewSheet
+        visible={sheetVisible}
+        title={title}
+        existing={review ?? null}
+        saving={saving}
+        onSave={(input) => run(() => saveReview(user, movieId, input), t('reviews.saveFailed'))}
+        onDelete={() => run(() => deleteReview(user.$id, movieId), t('reviews.deleteFailed'))}
+        onClose={() => setSheetVisible(false)}
+      />
+    </>
+  )
+}
+
+export default YourRating
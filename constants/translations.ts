@@ -0,0 +1,615 @@
+// UI strings by language. English is the source of truth: every key has to
+// exist there, and other languages fall back to it key by key.
+const en = {
+  "tabs.home": "Home",
+  "tabs.search": "Search",
+  "tabs.saved": "Saved",
+  "tabs.profile": "Profile",
+
+  "common.goBack": "Go back",
+  "common.error": "Error: {message}",
+  "common.notAvailable": "N/A",
+  "common.offline": "Offline — showing saved data",
+  "common.loadMoreFailed": "Couldn't load more: {message}",
+  "common.tryAgain": "Try again",
+  "common.endOfList": "You've reached the end",
+  "common.movies": "Movies",
+  "common.tvShows": "TV Shows",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.delete": "Delete",
+  "common.done": "Done",
+  "common.loading": "Loading...",
+
+  "errors.network": "You're offline or the connection dropped. Check your connection and try again.",
+  "errors.unauthorized": "Your session has expired. Please sign in again.",
+  "errors.invalidCredentials": "That email and password don't match. Check them and try again.",
+  "errors.forbidden": "You don't have permission to do that.",
+  "errors.unverified": "Verify your email address first.",
+  "errors.notFound": "We couldn't find that.",
+  "errors.rateLimited": "Too many requests right now. Wait a moment and try again.",
+  "errors.server": "Something went wrong on our side. Please try again.",
+  "errors.validation": "That request wasn't valid: {message}",
+  "errors.unknown": "Something went wrong: {message}",
+
+  "home.searchPlaceholder": "Search for a movie or TV show",
+  "home.trending": "Trending",
+  "home.trendingToday": "Today",
+  "home.trendingWeek": "This week",
+  "home.trendingAllTime": "All time",
+  "home.nothingTrending": "Nothing trending yet",
+  "home.latestMovies": "Latest Movies",
+  "home.popularTv": "Popular TV Shows",
+  "home.onlyMyServices": "Only on my services",
+  "home.noServicesTitle": "No services picked",
+  "home.noServicesMessage": "Choose your streaming services on the Profile tab first.",
+  "home.noMoreMovies": "No more movies to show",
+  "home.noMoreShows": "No more shows to show",
+
+  "search.moviesPlaceholder": "Search movies...",
+  "search.tvPlaceholder": "Search TV shows...",
+  "search.filters": "Filters",
+  "search.filtersCount": "Filters ({count})",
+  "search.people": "People",
+  "search.resultsFor": "Search Results for ",
+  "search.endOfResults": "End of results",
+  "search.noMovies": "No movies found",
+  "search.noShows": "No TV shows found",
+  "search.promptMovie": "Search for a movie",
+  "search.promptTv": "Search for a TV show",
+  "search.recent": "Recent searches",
+  "search.clearAll": "Clear all",
+  "search.openFilters": "Open filters",
+
+  "filters.reset": "Reset",
+  "filters.apply": "Apply",
+  "filters.genres": "Genres",
+  "filters.releaseYear": "Release year",
+  "filters.from": "From",
+  "filters.to": "To",
+  "filters.yearSeparator": "to",
+  "filters.minRating": "Minimum rating",
+  "filters.minVotes": "Minimum votes",
+  "filters.language": "Original language",
+  "filters.availability": "Availability",
+  "filters.pickServices": "Pick your streaming services on the Profile tab to filter by them.",
+  "filters.sortBy": "Sort by",
+  "filters.any": "Any",
+  "filters.now": "Now",
+  "filters.sortPopular": "Most popular",
+  "filters.sortRating": "Highest rated",
+  "filters.sortNewest": "Newest",
+  "filters.sortOldest": "Oldest",
+  "filters.genre": "Genre {id}",
+  "filters.years": "{from} – {to}",
+  "filters.rating": "Rating {value}+",
+  "filters.votes": "{count}+ votes",
+  "filters.remove": "Remove filter {label}",
+
+  "languages.en": "English",
+  "languages.fr": "French",
+  "languages.es": "Spanish",
+  "languages.de": "German",
+  "languages.it": "Italian",
+  "languages.ja": "Japanese",
+  "languages.ko": "Korean",
+  "languages.hi": "Hindi",
+  "languages.zh": "Chinese",
+  "languages.pt": "Portuguese",
+
+  "saved.title": "Your Watchlist",
+  "saved.sortAdded": "Date added",
+  "saved.sortRating": "Rating",
+  "saved.sortYear": "Release year",
+  "saved.remove": "Remove",
+  "saved.watched": "Watched",
+  "saved.markWatched": "Mark watched",
+  "saved.empty": "Nothing saved yet",
+  "saved.removeFailed": "Couldn't remove from watchlist",
+  "saved.watchedFailed": "Couldn't update watched status",
+
+  "watchlist.save": "Save",
+  "watchlist.saved": "Saved",
+  "watchlist.saveFailed": "Couldn't save to watchlist",
+  "watchlist.saveLabel": "Save {title} to watchlist",
+  "watchlist.removeLabel": "Remove {title} from watchlist",
+
+  "movie.playTrailer": "Play trailer",
+  "movie.votes": "({count} votes)",
+  "movie.overview": "Overview",
+  "movie.genres": "Genres",
+  "movie.budget": "Budget",
+  "movie.revenue": "Revenue",
+  "movie.productionCompanies": "Production Companies",
+  "movie.moreLikeThis": "More like this",
+  "movie.recommended": "Recommended",
+  "movie.inAppRating": "In-app: {average} / 5 from {count} ratings",
+  "movie.inAppRatingOne": "In-app: {average} / 5 from 1 rating",
+  "movie.runtime": "{hours}h {minutes}m",
+  "movie.runtimeMinutes": "{minutes}m",
+  "movie.cast": "Cast",
+  "movie.videos": "Videos",
+  "movie.closePlayer": "Close player",
+  "movie.director": "Director",
+  "movie.writers": "Writers",
+  "movie.composer": "Composer",
+  "movie.cinematographer": "Cinematographer",
+
+  "reviews.recent": "Recent reviews",
+  "reviews.yourRating": "Your rating",
+  "reviews.reviewOptional": "Review (optional)",
+  "reviews.placeholder": "What did you think?",
+  "reviews.spoilers": "Contains spoilers",
+  "reviews.showSpoilers": "Contains spoilers · Tap to show",
+  "reviews.rate": "Rate",
+  "reviews.rateLabel": "Rate this movie",
+  "reviews.yours": "You: {rating} / 5",
+  "reviews.yoursLabel": "Your rating: {rating} out of 5. Edit",
+  "reviews.saveFailed": "Couldn't save rating",
+  "reviews.deleteFailed": "Couldn't delete rating",
+
+  "watch.title": "Where to watch ({region})",
+  "watch.unavailable": "Not available to stream, rent or buy in this region",
+  "watch.stream": "Stream",
+  "watch.rent": "Rent",
+  "watch.buy": "Buy",
+  "watch.providerLabel": "{group} on {provider}",
+  "watch.attribution": "Availability data from JustWatch",
+
+  "tv.seasons": "Seasons",
+  "tv.seasonCount": "{count} seasons",
+  "tv.seasonCountOne": "1 season",
+  "tv.createdBy": "Created by",
+  "tv.networks": "Networks",
+  "tv.noEpisodes": "No episodes yet",
+
+  "collection.releaseOrder": "In release order",
+  "collection.partOf": "Part of",
+  "collection.view": "View collection",
+  "collection.viewing": "Viewing",
+  "collection.watched": "Watched",
+  "collection.onWatchlist": "On watchlist",
+  "collection.movieCount": "{count} movies",
+  "collection.movieCountOne": "1 movie",
+  "collection.tba": "TBA",
+
+  "people.born": "Born",
+  "people.died": "Died",
+  "people.placeOfBirth": "Place of birth",
+  "people.age": "(age {age})",
+  "people.diedAged": "{date} (aged {age})",
+  "people.biography": "Biography",
+  "people.readMore": "Read more",
+  "people.showLess": "Show less",
+  "people.knownFor": "Known for",
+  "people.filmography": "Filmography",
+  "people.acting": "Acting ({count})",
+  "people.crew": "Crew ({count})",
+  "people.sortYear": "Year",
+  "people.sortPopularity": "Popularity",
+  "people.noCredits": "No credits",
+
+  "profile.language": "Language",
+  "profile.streaming": "Streaming",
+  "profile.region": "Region",
+  "profile.myServices": "My services",
+  "profile.logout": "Logout",
+  "profile.greeting": "Hi {name}!",
+  "profile.greetingAnonymous": "Hi there!",
+  "profile.noEmail": "No email available",
+  "profile.authStatus": "Auth Status: {status}",
+  "profile.loggedIn": "Logged In",
+  "profile.loggedOut": "Logged Out",
+  "profile.logoutFailed": "Logout Failed",
+  "profile.saveFailed": "Couldn't save preferences",
+  "profile.searchCountries": "Search countries",
+
+  "verify.unverified": "Your email isn't verified yet. Verify it to rate titles and add to trending.",
+  "verify.resend": "Resend email",
+  "verify.resendIn": "Resend in {seconds}s",
+  "verify.sent": "Verification email sent. Check your inbox.",
+  "verify.required": "Verify your email to rate titles",
+  "verify.sendFailed": "Couldn't send email",
+  "verify.verifying": "Verifying your email...",
+  "verify.verifiedTitle": "Email Verified",
+  "verify.verifiedMessage": "Thanks! You can now rate titles and add to trending.",
+  "verify.invalidTitle": "Invalid Link",
+  "verify.invalidMessage": "This verification link isn't valid. Send a new one from your profile.",
+  "verify.expiredTitle": "Link Expired",
+  "verify.expiredMessage": "This verification link has expired. Send a new one from your profile.",
+  "verify.failedTitle": "Verification Failed",
+  "verify.failedMessage": "We couldn't verify your email right now. Please try the link again.",
+  "verify.goToProfile": "Go to Profile",
+
+  "accounts.title": "Connected accounts",
+  "accounts.connected": "Connected",
+  "accounts.notConnected": "Not connected",
+  "accounts.expires": "Access expires {date}",
+  "accounts.expired": "Access expired, renews on next sign-in",
+  "accounts.link": "Link",
+  "accounts.unlink": "Unlink",
+  "accounts.unlinkTitle": "Unlink {provider}?",
+  "accounts.unlinkMessage": "You won't be able to sign in with {provider} until you link it again.",
+  "accounts.lastMethod": "This is the only way you can sign in. Link another account first.",
+  "accounts.linkTitle": "Link {provider}?",
+  "accounts.linkNotice": "Only a {provider} account that uses {email} can be linked. One with a different email signs in to a separate account instead, which is created if it doesn't exist yet.",
+  "accounts.notLinked": "That {provider} account doesn't use {email}, so it belongs to a separate account and wasn't linked. You're still signed in here.",
+  "accounts.linkFailed": "Couldn't link {provider}",
+  "accounts.unlinkFailed": "Couldn't unlink account",
+
+  "auth.signInWith": "Sign in with {provider}",
+
+  "auth.error": "Error",
+  "auth.email": "Email",
+  "auth.emailPlaceholder": "Enter your email",
+  "auth.enterEmail": "Please enter your email",
+  "auth.signIn": "Sign In",
+  "auth.backToSignIn": "Back to Sign In",
+  "reset.forgotTitle": "Forgot Password",
+  "reset.forgotIntro": "Enter the email you signed up with and we'll send you a link to choose a new password.",
+  "reset.sending": "Sending...",
+  "reset.sendLink": "Send Reset Link",
+  "reset.remembered": "Remembered it? ",
+  "reset.checkEmail": "Check Your Email",
+  "reset.sentTo": "If an account exists for {email}, we've sent a link to reset its password. The link expires in one hour.",
+  "reset.differentEmail": "Use a different email",
+  "reset.failed": "Reset Failed",
+  "reset.invalidTitle": "Invalid Link",
+  "reset.invalidMessage": "This reset link isn't valid. It may have been used already or copied incompletely.",
+  "reset.expiredTitle": "Link Expired",
+  "reset.expiredMessage": "This reset link has expired. Request a new one to choose a password.",
+  "reset.sendNewLink": "Send a New Link",
+  "reset.doneTitle": "Password Updated",
+  "reset.doneMessage": "You can now sign in with your new password.",
+  "reset.title": "Choose a New Password",
+  "reset.newPassword": "New Password",
+  "reset.newPasswordPlaceholder": "Enter a new password",
+  "reset.confirmPassword": "Confirm Password",
+  "reset.confirmPlaceholder": "Enter it again",
+  "reset.mismatch": "Passwords don't match",
+  "reset.unmetRules": "Please choose a password that meets every rule",
+  "reset.saving": "Saving...",
+  "reset.save": "Save Password",
+  "password.length": "At least 8 characters",
+  "password.letter": "A letter",
+  "password.number": "A number",
+  "password.mixedCase": "Upper and lower case letters",
+
+  "passwordless.title": "Sign In Without a Password",
+  "passwordless.intro": "We'll email you a one-time code or a link that signs you straight in.",
+  "passwordless.emailCode": "Email Me a Code",
+  "passwordless.emailLink": "Email Me a Link",
+  "passwordless.havePassword": "Have a password? ",
+  "passwordless.sendFailed": "Couldn't Send Email",
+  "passwordless.signInFailed": "Sign In Failed",
+  "passwordless.codeTitle": "Enter Your Code",
+  "passwordless.codeSent": "We sent a {length}-digit code to {email}.",
+  "passwordless.codeExpires": "It expires at {time}.",
+  "passwordless.codeExpired": "This code has expired. Send a new one.",
+  "passwordless.codeLength": "Enter the {length}-digit code from the email",
+  "passwordless.codeWrong": "That code isn't right. Check the email and try again.",
+  "passwordless.signingIn": "Signing In...",
+  "passwordless.newCode": "Send a new code",
+  "passwordless.linkTitle": "Check Your Email",
+  "passwordless.linkSent": "We sent a sign-in link to {email}. Open it on this device to continue.",
+  "passwordless.anotherLink": "Send another link",
+  "passwordless.resendIn": "{label} in {seconds}s",
+  "magicLink.signingIn": "Signing you in...",
+  "magicLink.invalidTitle": "Invalid Link",
+  "magicLink.invalidMessage": "This sign-in link isn't valid. It may have been used already.",
+  "magicLink.expiredTitle": "Link Expired",
+  "magicLink.expiredMessage": "This sign-in link has expired. Request a new one to continue.",
+  "magicLink.failedTitle": "Sign In Failed",
+  "magicLink.failedMessage": "We couldn't sign you in right now. Please try the link again.",
+  "magicLink.sendNew": "Send a New Link",
+};
+
+export type TranslationKey = keyof typeof en;
+
+const es: Partial<Record<TranslationKey, string>> = {
+  "tabs.home": "Inicio",
+  "tabs.search": "Buscar",
+  "tabs.saved": "Guardados",
+  "tabs.profile": "Perfil",
+
+  "common.goBack": "Volver",
+  "common.error": "Error: {message}",
+  "common.notAvailable": "N/D",
+  "common.offline": "Sin conexión — mostrando datos guardados",
+  "common.loadMoreFailed": "No se pudo cargar más: {message}",
+  "common.tryAgain": "Reintentar",
+  "common.endOfList": "Has llegado al final",
+  "common.movies": "Películas",
+  "common.tvShows": "Series",
+  "common.cancel": "Cancelar",
+  "common.save": "Guardar",
+  "common.delete": "Eliminar",
+  "common.done": "Listo",
+  "common.loading": "Cargando...",
+
+  "errors.network": "No hay conexión o se ha cortado. Comprueba tu conexión e inténtalo de nuevo.",
+  "errors.unauthorized": "Tu sesión ha caducado. Vuelve a iniciar sesión.",
+  "errors.invalidCredentials": "El correo y la contraseña no coinciden. Revísalos e inténtalo de nuevo.",
+  "errors.forbidden": "No tienes permiso para hacer eso.",
+  "errors.unverified": "Verifica primero tu correo electrónico.",
+  "errors.notFound": "No hemos encontrado eso.",
+  "errors.rateLimited": "Demasiadas peticiones. Espera un momento e inténtalo de nuevo.",
+  "errors.server": "Algo ha fallado por nuestra parte. Inténtalo de nuevo.",
+  "errors.validation": "La petición no es válida: {message}",
+  "errors.unknown": "Algo ha fallado: {message}",
+
+  "home.searchPlaceholder": "Busca una película o serie",
+  "home.trending": "Tendencias",
+  "home.trendingToday": "Hoy",
+  "home.trendingWeek": "Esta semana",
+  "home.trendingAllTime": "Siempre",
+  "home.nothingTrending": "Todavía no hay tendencias",
+  "home.latestMovies": "Últimas películas",
+  "home.popularTv": "Series populares",
+  "home.onlyMyServices": "Solo en mis servicios",
+  "home.noServicesTitle": "No has elegido servicios",
+  "home.noServicesMessage": "Elige primero tus servicios de streaming en la pestaña Perfil.",
+  "home.noMoreMovies": "No hay más películas",
+  "home.noMoreShows": "No hay más series",
+
+  "search.moviesPlaceholder": "Buscar películas...",
+  "search.tvPlaceholder": "Buscar series...",
+  "search.filters": "Filtros",
+  "search.filtersCount": "Filtros ({count})",
+  "search.people": "Personas",
+  "search.resultsFor": "Resultados para ",
+  "search.endOfResults": "Fin de los resultados",
+  "search.noMovies": "No se encontraron películas",
+  "search.noShows": "No se encontraron series",
+  "search.promptMovie": "Busca una película",
+  "search.promptTv": "Busca una serie",
+  "search.recent": "Búsquedas recientes",
+  "search.clearAll": "Borrar todo",
+  "search.openFilters": "Abrir filtros",
+
+  "filters.reset": "Restablecer",
+  "filters.apply": "Aplicar",
+  "filters.genres": "Géneros",
+  "filters.releaseYear": "Año de estreno",
+  "filters.from": "Desde",
+  "filters.to": "Hasta",
+  "filters.yearSeparator": "a",
+  "filters.minRating": "Valoración mínima",
+  "filters.minVotes": "Votos mínimos",
+  "filters.language": "Idioma original",
+  "filters.availability": "Disponibilidad",
+  "filters.pickServices": "Elige tus servicios de streaming en la pestaña Perfil para filtrar por ellos.",
+  "filters.sortBy": "Ordenar por",
+  "filters.any": "Cualquiera",
+  "filters.now": "Hoy",
+  "filters.sortPopular": "Más populares",
+  "filters.sortRating": "Mejor valoradas",
+  "filters.sortNewest": "Más recientes",
+  "filters.sortOldest": "Más antiguas",
+  "filters.genre": "Género {id}",
+  "filters.years": "{from} – {to}",
+  "filters.rating": "Valoración {value}+",
+  "filters.votes": "{count}+ votos",
+  "filters.remove": "Quitar filtro {label}",
+
+  "languages.en": "Inglés",
+  "languages.fr": "Francés",
+  "languages.es": "Español",
+  "languages.de": "Alemán",
+  "languages.it": "Italiano",
+  "languages.ja": "Japonés",
+  "languages.ko": "Coreano",
+  "languages.hi": "Hindi",
+  "languages.zh": "Chino",
+  "languages.pt": "Portugués",
+
+  "saved.title": "Tu lista",
+  "saved.sortAdded": "Fecha añadida",
+  "saved.sortRating": "Valoración",
+  "saved.sortYear": "Año de estreno",
+  "saved.remove": "Quitar",
+  "saved.watched": "Vista",
+  "saved.markWatched": "Marcar como vista",
+  "saved.empty": "Aún no has guardado nada",
+  "saved.removeFailed": "No se pudo quitar de tu lista",
+  "saved.watchedFailed": "No se pudo actualizar el estado de vista",
+
+  "watchlist.save": "Guardar",
+  "watchlist.saved": "Guardada",
+  "watchlist.saveFailed": "No se pudo guardar en tu lista",
+  "watchlist.saveLabel": "Guardar {title} en tu lista",
+  "watchlist.removeLabel": "Quitar {title} de tu lista",
+
+  "movie.playTrailer": "Ver tráiler",
+  "movie.votes": "({count} votos)",
+  "movie.overview": "Sinopsis",
+  "movie.genres": "Géneros",
+  "movie.budget": "Presupuesto",
+  "movie.revenue": "Recaudación",
+  "movie.productionCompanies": "Productoras",
+  "movie.moreLikeThis": "Similares",
+  "movie.recommended": "Recomendadas",
+  "movie.inAppRating": "En la app: {average} / 5 de {count} valoraciones",
+  "movie.inAppRatingOne": "En la app: {average} / 5 de 1 valoración",
+  "movie.runtime": "{hours} h {minutes} min",
+  "movie.runtimeMinutes": "{minutes} min",
+  "movie.cast": "Reparto",
+  "movie.videos": "Vídeos",
+  "movie.closePlayer": "Cerrar reproductor",
+  "movie.director": "Dirección",
+  "movie.writers": "Guion",
+  "movie.composer": "Música",
+  "movie.cinematographer": "Fotografía",
+
+  "reviews.recent": "Reseñas recientes",
+  "reviews.yourRating": "Tu valoración",
+  "reviews.reviewOptional": "Reseña (opcional)",
+  "reviews.placeholder": "¿Qué te ha parecido?",
+  "reviews.spoilers": "Contiene spoilers",
+  "reviews.showSpoilers": "Contiene spoilers · Toca para mostrar",
+  "reviews.rate": "Valorar",
+  "reviews.rateLabel": "Valorar esta película",
+  "reviews.yours": "Tú: {rating} / 5",
+  "reviews.yoursLabel": "Tu valoración: {rating} de 5. Editar",
+  "reviews.saveFailed": "No se pudo guardar la valoración",
+  "reviews.deleteFailed": "No se pudo eliminar la valoración",
+
+  "watch.title": "Dónde ver ({region})",
+  "watch.unavailable": "No disponible en streaming, alquiler ni compra en esta región",
+  "watch.stream": "Streaming",
+  "watch.rent": "Alquiler",
+  "watch.buy": "Compra",
+  "watch.providerLabel": "{group} en {provider}",
+  "watch.attribution": "Datos de disponibilidad de JustWatch",
+
+  "tv.seasons": "Temporadas",
+  "tv.seasonCount": "{count} temporadas",
+  "tv.seasonCountOne": "1 temporada",
+  "tv.createdBy": "Creada por",
+  "tv.networks": "Cadenas",
+  "tv.noEpisodes": "Todavía no hay episodios",
+
+  "collection.releaseOrder": "Por orden de estreno",
+  "collection.partOf": "Parte de",
+  "collection.view": "Ver colección",
+  "collection.viewing": "Viendo",
+  "collection.watched": "Vista",
+  "collection.onWatchlist": "En tu lista",
+  "collection.movieCount": "{count} películas",
+  "collection.movieCountOne": "1 película",
+  "collection.tba": "Por anunciar",
+
+  "people.born": "Nacimiento",
+  "people.died": "Fallecimiento",
+  "people.placeOfBirth": "Lugar de nacimiento",
+  "people.age": "({age} años)",
+  "people.diedAged": "{date} (a los {age} años)",
+  "people.biography": "Biografía",
+  "people.readMore": "Leer más",
+  "people.showLess": "Mostrar menos",
+  "people.knownFor": "Conocido por",
+  "people.filmography": "Filmografía",
+  "people.acting": "Interpretación ({count})",
+  "people.crew": "Equipo ({count})",
+  "people.sortYear": "Año",
+  "people.sortPopularity": "Popularidad",
+  "people.noCredits": "Sin créditos",
+
+  "profile.language": "Idioma",
+  "profile.streaming": "Streaming",
+  "profile.region": "Región",
+  "profile.myServices": "Mis servicios",
+  "profile.logout": "Cerrar sesión",
+  "profile.greeting": "¡Hola, {name}!",
+  "profile.greetingAnonymous": "¡Hola!",
+  "profile.noEmail": "No hay correo disponible",
+  "profile.authStatus": "Estado: {status}",
+  "profile.loggedIn": "Sesión iniciada",
+  "profile.loggedOut": "Sesión cerrada",
+  "profile.logoutFailed": "No se pudo cerrar sesión",
+  "profile.saveFailed": "No se pudieron guardar las preferencias",
+  "profile.searchCountries": "Buscar países",
+
+  "verify.unverified": "Tu correo aún no está verificado. Verifícalo para valorar títulos y sumar a tendencias.",
+  "verify.resend": "Reenviar correo",
+  "verify.resendIn": "Reenviar en {seconds} s",
+  "verify.sent": "Correo de verificación enviado. Revisa tu bandeja de entrada.",
+  "verify.required": "Verifica tu correo para valorar títulos",
+  "verify.sendFailed": "No se pudo enviar el correo",
+  "verify.verifying": "Verificando tu correo...",
+  "verify.verifiedTitle": "Correo verificado",
+  "verify.verifiedMessage": "¡Gracias! Ya puedes valorar títulos y sumar a tendencias.",
+  "verify.invalidTitle": "Enlace no válido",
+  "verify.invalidMessage": "Este enlace de verificación no es válido. Envía uno nuevo desde tu perfil.",
+  "verify.expiredTitle": "Enlace caducado",
+  "verify.expiredMessage": "Este enlace de verificación ha caducado. Envía uno nuevo desde tu perfil.",
+  "verify.failedTitle": "No se pudo verificar",
+  "verify.failedMessage": "No hemos podido verificar tu correo. Vuelve a probar el enlace.",
+  "verify.goToProfile": "Ir al perfil",
+
+  "accounts.title": "Cuentas conectadas",
+  "accounts.connected": "Conectada",
+  "accounts.notConnected": "No conectada",
+  "accounts.expires": "El acceso caduca el {date}",
+  "accounts.expired": "Acceso caducado, se renueva al iniciar sesión",
+  "accounts.link": "Vincular",
+  "accounts.unlink": "Desvincular",
+  "accounts.unlinkTitle": "¿Desvincular {provider}?",
+  "accounts.unlinkMessage": "No podrás iniciar sesión con {provider} hasta que vuelvas a vincularla.",
+  "accounts.lastMethod": "Es tu única forma de iniciar sesión. Vincula otra cuenta primero.",
+  "accounts.linkTitle": "¿Vincular {provider}?",
+  "accounts.linkNotice": "Solo se puede vincular una cuenta de {provider} que use {email}. Una con otro correo inicia sesión en una cuenta distinta, que se crea si aún no existe.",
+  "accounts.notLinked": "Esa cuenta de {provider} no usa {email}, así que pertenece a otra cuenta y no se ha vinculado. Sigues con la sesión iniciada aquí.",
+  "accounts.linkFailed": "No se pudo vincular {provider}",
+  "accounts.unlinkFailed": "No se pudo desvincular la cuenta",
+
+  "auth.signInWith": "Iniciar sesión con {provider}",
+
+  "auth.error": "Error",
+  "auth.email": "Correo electrónico",
+  "auth.emailPlaceholder": "Introduce tu correo",
+  "auth.enterEmail": "Introduce tu correo electrónico",
+  "auth.signIn": "Iniciar sesión",
+  "auth.backToSignIn": "Volver a iniciar sesión",
+  "reset.forgotTitle": "¿Olvidaste tu contraseña?",
+  "reset.forgotIntro": "Introduce el correo con el que te registraste y te enviaremos un enlace para elegir una nueva contraseña.",
+  "reset.sending": "Enviando...",
+  "reset.sendLink": "Enviar enlace",
+  "reset.remembered": "¿Ya la recuerdas? ",
+  "reset.checkEmail": "Revisa tu correo",
+  "reset.sentTo": "Si existe una cuenta para {email}, te hemos enviado un enlace para restablecer la contraseña. El enlace caduca en una hora.",
+  "reset.differentEmail": "Usar otro correo",
+  "reset.failed": "No se pudo restablecer",
+  "reset.invalidTitle": "Enlace no válido",
+  "reset.invalidMessage": "Este enlace no es válido. Puede que ya se haya usado o que se copiara incompleto.",
+  "reset.expiredTitle": "Enlace caducado",
+  "reset.expiredMessage": "Este enlace ha caducado. Pide uno nuevo para elegir una contraseña.",
+  "reset.sendNewLink": "Enviar un enlace nuevo",
+  "reset.doneTitle": "Contraseña actualizada",
+  "reset.doneMessage": "Ya puedes iniciar sesión con tu nueva contraseña.",
+  "reset.title": "Elige una nueva contraseña",
+  "reset.newPassword": "Nueva contraseña",
+  "reset.newPasswordPlaceholder": "Introduce una nueva contraseña",
+  "reset.confirmPassword": "Confirmar contraseña",
+  "reset.confirmPlaceholder": "Vuelve a introducirla",
+  "reset.mismatch": "Las contraseñas no coinciden",
+  "reset.unmetRules": "Elige una contraseña que cumpla todas las reglas",
+  "reset.saving": "Guardando...",
+  "reset.save": "Guardar contraseña",
+  "password.length": "Al menos 8 caracteres",
+  "password.letter": "Una letra",
+  "password.number": "Un número",
+  "password.mixedCase": "Mayúsculas y minúsculas",
+
+  "passwordless.title": "Inicia sesión sin contraseña",
+  "passwordless.intro": "Te enviaremos por correo un código de un solo uso o un enlace que inicia sesión directamente.",
+  "passwordless.emailCode": "Envíame un código",
+  "passwordless.emailLink": "Envíame un enlace",
+  "passwordless.havePassword": "¿Tienes contraseña? ",
+  "passwordless.sendFailed": "No se pudo enviar el correo",
+  "passwordless.signInFailed": "No se pudo iniciar sesión",
+  "passwordless.codeTitle": "Introduce tu código",
+  "passwordless.codeSent": "Hemos enviado un código de {length} dígitos a {email}.",
+  "passwordless.codeExpires": "Caduca a las {time}.",
+  "passwordless.codeExpired": "Este código ha caducado. Pide uno nuevo.",
+  "passwordless.codeLength": "Introduce el código de {length} dígitos del correo",
+  "passwordless.codeWrong": "Ese código no es correcto. Revisa el correo e inténtalo de nuevo.",
+  "passwordless.signingIn": "Iniciando sesión...",
+  "passwordless.newCode": "Enviar un código nuevo",
+  "passwordless.linkTitle": "Revisa tu correo",
+  "passwordless.linkSent": "Hemos enviado un enlace de inicio de sesión a {email}. Ábrelo en este dispositivo para continuar.",
+  "passwordless.anotherLink": "Enviar otro enlace",
+  "passwordless.resendIn": "{label} en {seconds} s",
+  "magicLink.signingIn": "Iniciando sesión...",
+  "magicLink.invalidTitle": "Enlace no válido",
+  "magicLink.invalidMessage": "Este enlace de inicio de sesión no es válido. Puede que ya se haya usado.",
+  "magicLink.expiredTitle": "Enlace caducado",
+  "magicLink.expiredMessage": "Este enlace de inicio de sesión ha caducado. Pide uno nuevo para continuar.",
+  "magicLink.failedTitle": "No se pudo iniciar sesión",
+  "magicLink.failedMessage": "No hemos podido iniciar tu sesión. Vuelve a probar el enlace.",
+  "magicLink.sendNew": "Enviar un enlace nuevo",
+};
+
+export const translations: Record<string, Partial<Record<TranslationKey, string>>> = { en, es };
+
+export const FALLBACK_TRANSLATIONS = en;
@@ -15,12 +15,235 @@ interface Movie {
   vote_count: number;
 }
 
+interface Genre {
+  id: number;
+  name: string;
+}
+
+type MovieSortOption =
+  | 'popularity.desc'
+  | 'vote_average.desc'
+  | 'primary_release_date.desc'
+  | 'primary_release_date.asc';
+
+interface MovieFilters {
+  genreIds: number[];
+  yearFrom?: number;
+  yearTo?: number;
+  minVoteAverage?: number;
+  minVoteCount?: number;
+  language?: string;
+  sortBy: MovieSortOption;
+  // Resolved from the user's preferences when "only my services" is on
+  myServices?: MyServices;
+}
+
+interface MyServices {
+  region: string;
+  providerIds: number[];
+}
+
+interface WatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+  display_priority: number;
+}
+
+interface WatchProviderAvailability {
+  link: string;
+  flatrate?: WatchProvider[];
+  rent?: WatchProvider[];
+  buy?: WatchProvider[];
+}
+
+interface WatchRegion {
+  iso_3166_1: string;
+  english_name: string;
+  native_name: string;
+}
+
+// Stored in the Appwrite account prefs
+interface UserPreferences {
+  // BCP 47 tag such as 'en-US'; the device locale is used when unset
+  locale?: string;
+  region?: string;
+  providerIds?: number[];
+  // Newest first
+  recentSearches?: string[];
+}
+
+interface PaginatedResponse<T> {
+  page: number;
+  results: T[];
+  total_pages: number;
+  total_results: number;
+}
+
+type MediaType = 'movie' | 'tv';
+
+interface TvShow {
+  id: number;
+  name: string;
+  original_name: string;
+  backdrop_path: string | null;
+  genre_ids: number[];
+  origin_country: string[];
+  original_language: string;
+  overview: string;
+  popularity: number;
+  poster_path: string | null;
+  first_air_date: string;
+  vote_average: number;
+  vote_count: number;
+}
+
+interface TvSeasonSummary {
+  id: number;
+  name: string;
+  season_number: number;
+  episode_count: number;
+  air_date: string | null;
+  poster_path: string | null;
+  overview: string;
+}
+
+interface TvEpisode {
+  id: number;
+  name: string;
+  overview: string;
+  episode_number: number;
+  season_number: number;
+  air_date: string | null;
+  still_path: string | null;
+  runtime: number | null;
+  vote_average: number;
+}
+
+interface TvSeason extends TvSeasonSummary {
+  episodes: TvEpisode[];
+}
+
+interface TvDetails {
+  id: number;
+  name: string;
+  original_name: string;
+  overview: string;
+  tagline: string | null;
+  status: string;
+  in_production: boolean;
+  first_air_date: string;
+  last_air_date: string | null;
+  number_of_seasons: number;
+  number_of_episodes: number;
+  episode_run_time: number[];
+  poster_path: string | null;
+  backdrop_path: string | null;
+  genres: Genre[];
+  created_by: {
+    id: number;
+    name: string;
+    profile_path: string | null;
+  }[];
+  networks: {
+    id: number;
+    name: string;
+    logo_path: string | null;
+  }[];
+  seasons: TvSeasonSummary[];
+  vote_average: number;
+  vote_count: number;
+  credits: MovieCredits;
+}
+
+type TrendingWindow = 'day' | 'week' | 'all';
+
+// One per user, title and day; trending is counted from these
+interface TrendingEvent {
+  movie_id: number;
+  media_type: MediaType;
+  title: string;
+  poster_path: string | null;
+  search_term: string;
+  user_key: string;
+  day: number;
+}
+
 interface TrendingMovie {
+  // The most common search that led to the title
   searchTerm: string;
+  media_type?: MediaType;
+  movie_id: number;
+  title: string;
+  count: number;
+  poster_path: string | null;
+}
+
+interface SaveableMovie {
+  id: number;
+  media_type?: MediaType;
+  title: string;
+  poster_path: string | null;
+  vote_average: number;
+  release_date: string;
+}
+
+interface SavedMovie {
+  $id: string;
+  $createdAt: string;
+  user_id: string;
+  // Missing on entries saved before TV support; those are all movies
+  media_type?: MediaType;
   movie_id: number;
   title: string;
+  poster_path: string | null;
+  vote_average: number;
+  release_date: string;
+}
+
+// Kept apart from the watchlist, so a title stays watched after it's unsaved
+interface WatchedTitle {
+  $id: string;
+  $createdAt: string;
+  user_id: string;
+  media_type: MediaType;
+  movie_id: number;
+  title: string;
+  poster_path: string | null;
+  watched_at: string;
+}
+
+interface MovieReview {
+  $id: string;
+  $createdAt: string;
+  $updatedAt: string;
+  user_id: string;
+  user_name: string;
+  movie_id: number;
+  // 0.5 to 5 in half-star steps
+  rating: number;
+  review: string | null;
+  spoiler: boolean;
+}
+
+interface ReviewInput {
+  rating: number;
+  review: string | null;
+  spoiler: boolean;
+}
+
+interface RatingSummary {
+  average: number | null;
   count: number;
-  poster_url: string;
+}
+
+interface MovieCollection {
+  id: number;
+  name: string;
+  overview: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  parts: Movie[];
 }
 
 interface MovieDetails {
@@ -69,6 +292,76 @@ interface MovieDetails {
   video: boolean;
   vote_average: number;
   vote_count: number;
+  credits: MovieCredits;
+}
+
+interface CastMember {
+  id: number;
+  credit_id: string;
+  name: string;
+  character: string;
+  profile_path: string | null;
+  order: number;
+  known_for_department: string;
+}
+
+interface CrewMember {
+  id: number;
+  credit_id: string;
+  name: string;
+  job: string;
+  department: string;
+  profile_path: string | null;
+  known_for_department: string;
+}
+
+interface MovieCredits {
+  cast: CastMember[];
+  crew: CrewMember[];
+}
+
+interface MovieVideo {
+  id: string;
+  key: string;
+  name: string;
+  site: string;
+  type: string;
+  official: boolean;
+  size: number;
+  iso_639_1: string;
+  iso_3166_1: string;
+  published_at: string;
+}
+
+interface PersonSummary {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  known_for_department: string;
+  popularity: number;
+}
+
+interface PersonCastCredit extends Movie {
+  credit_id: string;
+  character: string;
+}
+
+interface PersonCrewCredit extends Movie {
+  credit_id: string;
+  job: string;
+  department: string;
+}
+
+interface PersonDetails extends PersonSummary {
+  biography: string;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  also_known_as: string[];
+  movie_credits: {
+    cast: PersonCastCredit[];
+    crew: PersonCrewCredit[];
+  };
 }
 
 interface TrendingCardProps {
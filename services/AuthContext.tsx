@@ -1,229 +1,231 @@
-import { createContext, useContext, useEffect, useState } from "react";
-import { checkAndRefreshOAuthTokens, createAccount, getCurrentSession, getCurrentUser, getGoogleProfile, getUserIdentities, signIn, signInWithGoogle, signOut } from "./appwrite";
-
-export interface AuthContextType {
-  signin: (email: string, password: string) => Promise<void>;
-  signup: (email: string, password: string, name: string) => Promise<void>;
-  signInWithGoogle: () => Promise<void>;
-  signout: () => Promise<void>;
-  refreshAuthState: () => Promise<void>;
-  isLoading: boolean;
-  user: any;
-  userProfile: {
-    name: string;
-    email: string;
-    avatar?: string;
-  } | null;
-}
+import { createContext, useCallback, useContext, useEffect, useReducer } from "react";
+import { OAuthProvider } from "react-native-appwrite";
+import { AuthContextType, OAuthLinkResult, User, UserProfile } from "../types/auth";
+import { checkAndRefreshOAuthTokens, createAccount, getCurrentSession, getCurrentUser, getUserIdentities, sendVerificationEmail, signIn as createEmailSession, signInWithOAuth as runOAuthFlow, signInWithToken as createTokenSession, signOut as deleteCurrentSession } from "./appwrite";
+import { INITIAL_AUTH_STATE, authReducer, isEmailVerified, isSignedIn } from "./authState";
+import { UnauthorizedError, toAppError } from "./errors";
+import { createLogger } from "./logger";
+import { clearOffline } from "./offlineStore";
+import { fetchProviderProfile, findOAuthProvider } from "./oauthProviders";
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const AuthProvider = ({ children } : { children: React.ReactNode}) => {
-    const [isLoading, setIsLoading] = useState(true);
-    const [user, setUser] = useState<any>(null);
-    const [userProfile, setUserProfile] = useState<{name: string; email: string; avatar?: string} | null>(null);
+const log = createLogger('AuthContext');
 
-    // Check for existing session on app startup
-    useEffect(() => {
-        checkCurrentUser();
-    }, []);
+// Finds a provider we know how to read a profile from, with a token for it.
+// The session carries one when it was created by that provider; otherwise the
+// account's identities might.
+const findProviderToken = async () => {
+    const session = await getCurrentSession();
+    const sessionProvider = findOAuthProvider(session?.provider);
+
+    if (session && sessionProvider && session.providerAccessToken) {
+        return { provider: sessionProvider, accessToken: session.providerAccessToken };
+    }
+
+    // Sessions made from an OAuth token report 'oauth2' rather than the provider
+    if (session?.provider !== 'oauth2') return null;
+
+    log.debug("OAuth session without a provider token, checking user identities...");
+    const identities = await getUserIdentities();
 
-    const checkCurrentUser = async () => {
+    for (const identity of identities.identities) {
+        const provider = findOAuthProvider(identity.provider);
+        if (provider && identity.providerAccessToken) {
+            return { provider, accessToken: identity.providerAccessToken };
+        }
+    }
+
+    return null;
+};
+
+// OAuth sign-ins get their name and picture from the provider; everyone else
+// gets what Appwrite has
+const loadUserProfile = async (currentUser: User): Promise<UserProfile> => {
+    // Start with basic user info from Appwrite
+    const profile: UserProfile = {
+        name: currentUser.name || 'User',
+        email: currentUser.email || '',
+        avatar: undefined
+    };
+
+    try {
+        const source = await findProviderToken();
+        if (!source) {
+            log.debug("No OAuth provider token found, using basic profile only");
+            return profile;
+        }
+
+        const providerProfile = await fetchProviderProfile(source.provider, source.accessToken);
+        if (providerProfile) {
+            profile.name = providerProfile.name || profile.name;
+            profile.email = profile.email || providerProfile.email || '';
+            profile.avatar = providerProfile.avatar;
+        }
+
+        log.debug("Setting user profile", {
+            provider: source.provider.id,
+            hasName: !!profile.name,
+            hasAvatar: !!profile.avatar
+        });
+    } catch (error) {
+        log.error("Error fetching user profile", error);
+    }
+
+    return profile;
+};
+
+const AuthProvider = ({ children } : { children: React.ReactNode}) => {
+    const [state, dispatch] = useReducer(authReducer, INITIAL_AUTH_STATE);
+
+    // Reads the account and moves to signedIn or signedOut. Failures are
+    // recorded in the state and also rethrown for callers that want them.
+    // Everything here only needs `dispatch`, so the callbacks are stable.
+    const loadSession = useCallback(async () => {
         try {
-            console.log("AuthContext: Checking for existing user...");
-            setIsLoading(true);
-            
+            log.debug("Checking for existing user...");
+
             // First check and refresh OAuth tokens if needed
             const tokenWasRefreshed = await checkAndRefreshOAuthTokens();
             if (tokenWasRefreshed) {
-                console.log("AuthContext: OAuth tokens were refreshed");
+                log.debug("OAuth tokens were refreshed");
             }
-            
+
             const currentUser = await getCurrentUser();
-            console.log("AuthContext: getCurrentUser result:", { user: !!currentUser, email: currentUser?.email });
-            
-            if (currentUser) {
-                setUser(currentUser);
-                console.log("AuthContext: User found, fetching profile info...");
-                
-                // Fetch enhanced profile info (will get fresh tokens if they were refreshed)
-                await fetchUserProfile(currentUser);
-                
-                console.log("AuthContext: User found, setting as logged in");
-            } else {
-                setUser(null);
-                setUserProfile(null);
-                console.log("AuthContext: No user found, setting as logged out");
-            }
-        } catch (error) {
-            console.log("AuthContext: Error checking user:", error);
-            setUser(null);
-            setUserProfile(null);
-        } finally {
-            console.log("AuthContext: Setting isLoading to false");
-            setIsLoading(false);
-        }
-    };
 
-    const fetchUserProfile = async (currentUser: any) => {
-        try {
-            // Start with basic user info from Appwrite
-            const profile = {
-                name: currentUser.name || 'User',
-                email: currentUser.email || '',
-                avatar: undefined as string | undefined
-            };
-
-            // Try to get session info to check for OAuth provider
-            const session = await getCurrentSession();
-            
-            if (session && session.providerAccessToken && 
-                (session.provider === 'google' || session.provider?.toLowerCase().includes('google'))) {
-                console.log("AuthContext: Fetching Google profile info...");
-                const googleProfile = await getGoogleProfile(session.providerAccessToken);
-                
-                if (googleProfile) {
-                    profile.name = googleProfile.name || profile.name;
-                    profile.avatar = googleProfile.picture;
-                    console.log("AuthContext: Google profile fetched successfully");
-                }
-            } else if (session && session.provider === 'oauth2') {
-                console.log("AuthContext: OAuth session detected, checking user identities...");
-                // Try to get profile info from identities since session access token isn't available
-                const identities = await getUserIdentities();
-                
-                // Look for Google identity that might have profile info
-                if (identities && identities.identities) {
-                    const googleIdentity = identities.identities.find((identity: any) => 
-                        identity.provider?.toLowerCase().includes('google')
-                    );
-                    
-                    if (googleIdentity) {
-                        console.log("AuthContext: Found Google identity:", {
-                            provider: googleIdentity.provider,
-                            hasAccessToken: !!googleIdentity.providerAccessToken,
-                            tokenExpiry: googleIdentity.providerAccessTokenExpiry
-                        });
-                        
-                        // Use the access token from identity to fetch Google profile
-                        if (googleIdentity.providerAccessToken) {
-                            console.log("AuthContext: Using Google identity access token to fetch profile...");
-                            const googleProfile = await getGoogleProfile(googleIdentity.providerAccessToken);
-                            
-                            if (googleProfile) {
-                                profile.name = googleProfile.name || profile.name;
-                                profile.avatar = googleProfile.picture;
-                                console.log("AuthContext: Google profile fetched successfully from identity token:", {
-                                    hasName: !!googleProfile.name,
-                                    hasAvatar: !!googleProfile.picture
-                                });
-                            }
-                        }
-                    }
-                }
-            } else {
-                console.log("AuthContext: No OAuth session found, using basic profile only");
+            if (!currentUser) {
+                log.debug("No user found, setting as signed out");
+                dispatch({ type: 'sessionMissing' });
+                return;
             }
 
-            console.log("AuthContext: Setting user profile:", {
-                hasName: !!profile.name,
-                hasEmail: !!profile.email,
-                hasAvatar: !!profile.avatar
-            });
-            
-            setUserProfile(profile);
+            // Fetch enhanced profile info (will get fresh tokens if they were refreshed)
+            const profile = await loadUserProfile(currentUser);
+            log.debug("User found, setting as signed in");
+            dispatch({ type: 'sessionFound', user: currentUser, profile });
         } catch (error) {
-            console.log("AuthContext: Error fetching user profile:", error);
-            // Fallback to basic profile
-            setUserProfile({
-                name: currentUser.name || 'User',
-                email: currentUser.email || '',
-                avatar: undefined
-            });
+            log.error("Error checking user", error);
+            dispatch({ type: 'failed', error: toAppError(error) });
+            throw error;
         }
-    };
+    }, []);
+
+    // Check for existing session on app startup
+    useEffect(() => {
+        // A failure lands in the error state, which app/index.tsx shows
+        loadSession().catch(() => {});
+    }, [loadSession]);
 
-    // Expose checkCurrentUser for manual refresh
-    const refreshAuthState = checkCurrentUser;
+    const refreshAuthState = useCallback(async () => {
+        dispatch({ type: 'refreshStarted' });
+        await loadSession();
+    }, [loadSession]);
 
-    const signin = async (email: string, password: string) => {
+    // Runs a sign-in flow, then picks up the session it created. A flow the
+    // user backed out of created none, so there's nothing to load.
+    const authenticate = useCallback(async (flow: () => Promise<'cancelled' | void>) => {
+        dispatch({ type: 'authStarted' });
+
+        let outcome: 'cancelled' | void;
         try {
-            console.log("AuthContext: Attempting signin...");
-            const session = await signIn(email, password);
-            console.log("AuthContext: signIn successful, session created:", !!session);
-            
-            // Refresh the auth state to detect the new session
-            console.log("AuthContext: Refreshing auth state after successful signin");
-            await checkCurrentUser();
-            
-            console.log("AuthContext: Signin complete, auth state refreshed");
+            outcome = await flow();
         } catch (error) {
-            console.log("AuthContext: Sign in error:", error);
-            setUser(null);
+            dispatch({ type: 'failed', error: toAppError(error) });
             throw error;
         }
-    };
 
-    const signup = async (email: string, password: string, name: string) => {
-        try {
-            console.log("AuthContext: Attempting signup...");
-            await createAccount(email, password, name);
-            console.log("AuthContext: Account created, signing in...");
-            await signIn(email, password);
-            console.log("AuthContext: Signed in after signup, refreshing auth state");
-            await checkCurrentUser();
-            console.log("AuthContext: Signup complete, auth state refreshed");
-        } catch (error) {
-            console.log("AuthContext: Sign up error:", error);
-            setUser(null);
-            throw error;
+        if (outcome === 'cancelled') {
+            dispatch({ type: 'cancelled' });
+            return;
         }
-    };
 
-    const googleSignIn = async () => {
+        await loadSession();
+    }, [loadSession]);
+
+    const signIn = useCallback((email: string, password: string) => authenticate(async () => {
+        log.debug("Attempting sign in...");
+        await createEmailSession(email, password);
+    }), [authenticate]);
+
+    const signUp = useCallback((email: string, password: string, name: string) => authenticate(async () => {
+        log.debug("Attempting sign up...");
+        await createAccount(email, password, name);
+        log.debug("Account created, signing in...");
+        await createEmailSession(email, password);
+
+        // The account is usable straight away; shared features wait for the
+        // link. A failed send can be retried from Profile.
+        await sendVerificationEmail().catch((error) => log.warn("Verification email not sent", error));
+    }), [authenticate]);
+
+    const signInWithOAuth = useCallback((provider: OAuthProvider) => authenticate(async () => {
+        log.debug("Attempting OAuth sign in...", { provider });
+        const result = await runOAuthFlow(provider);
+        if (result.type === 'cancelled') return 'cancelled';
+    }), [authenticate]);
+
+    const signInWithToken = useCallback((userId: string, secret: string) => authenticate(async () => {
+        log.debug("Attempting passwordless sign in...");
+        await createTokenSession(userId, secret);
+    }), [authenticate]);
+
+    // Unlike signing in, a failure here keeps the current session; the
+    // reducer puts a failed refresh back to signedIn
+    const currentUserId = isSignedIn(state) ? state.user.$id : null;
+
+    const linkOAuthProvider = useCallback(async (provider: OAuthProvider) => {
+        if (!currentUserId) throw new UnauthorizedError();
+
+        log.debug("Attempting to link OAuth provider...", { provider });
+        dispatch({ type: 'refreshStarted' });
+
+        let outcome: OAuthLinkResult;
         try {
-            console.log("AuthContext: Attempting Google sign in...");
-            const result = await signInWithGoogle();
-            console.log("AuthContext: Google OAuth result:", result);
-            
-            // The signInWithGoogle function now handles session checking internally
-            // If we get here without an error, the user should be logged in
-            console.log("AuthContext: OAuth completed, refreshing auth state");
-            await checkCurrentUser();
-            console.log("AuthContext: Auth state refreshed after Google OAuth");
+            const result = await runOAuthFlow(provider, currentUserId);
+            outcome = result.type === 'success' ? 'linked' : result.type;
         } catch (error) {
-            console.log("AuthContext: Google sign in error:", error);
-            setUser(null);
+            dispatch({ type: 'failed', error: toAppError(error) });
             throw error;
         }
-    };
 
-    const logout = async () => {
-        setIsLoading(true);
+        if (outcome === 'cancelled') {
+            dispatch({ type: 'cancelled' });
+            return outcome;
+        }
+
+        await loadSession();
+        return outcome;
+    }, [currentUserId, loadSession]);
+
+    const signOut = useCallback(async () => {
         try {
-            console.log("AuthContext: Attempting signout...");
-            await signOut();
-            console.log("AuthContext: Signout successful");
-            setUser(null);
+            log.debug("Attempting sign out...");
+            await deleteCurrentSession();
+            log.debug("Sign out successful");
         } catch (error) {
-            console.log("AuthContext: Sign out error:", error);
-            // Even if signout fails, clear the local user state
-            setUser(null);
-            // Don't throw error, as we still want to clear local state
+            // Even if the server call fails, the local session is forgotten
+            log.error("Sign out error", error);
         } finally {
-            setIsLoading(false);
+            dispatch({ type: 'signedOut' });
+            // Saved copies shouldn't outlive the account they were loaded for
+            clearOffline().catch((error) => log.warn("Couldn't clear offline copies", error));
         }
-    };
+    }, []);
 
-    const contextData = { 
-        signin, 
-        signup, 
-        signInWithGoogle: googleSignIn,
-        signout: logout,
+    const contextData: AuthContextType = {
+        state,
+        status: state.status,
+        user: isSignedIn(state) ? state.user : null,
+        userProfile: isSignedIn(state) ? state.profile : null,
+        emailVerified: isSignedIn(state) && isEmailVerified(state.user),
+        signIn,
+        signUp,
+        signInWithOAuth,
+        signInWithToken,
+        linkOAuthProvider,
+        signOut,
         refreshAuthState,
-        isLoading, 
-        user,
-        userProfile 
+        sendVerificationEmail
     };
 
     return (
@@ -242,4 +244,3 @@ const useAuth = () => {
 };
 
 export { AuthContext, AuthProvider, useAuth };
-
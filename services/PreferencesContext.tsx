@@ -0,0 +1,92 @@
+import { createContext, useContext, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "./AuthContext";
+import { setTmdbLocale } from "./api";
+import { updatePreferences as savePreferences } from "./appwrite";
+import { getDeviceLocale } from "./locale";
+import { getDeviceRegion } from "./watchProviders";
+
+export interface PreferencesContextType {
+  preferences: UserPreferences;
+  // The saved locale, or the device's when none has been picked
+  locale: string;
+  // The saved region, or the device's when none has been picked
+  region: string;
+  // Undefined until the user has picked at least one service
+  myServices: MyServices | undefined;
+  updatePreferences: (changes: Partial<UserPreferences>) => Promise<void>;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+const PreferencesProvider = ({ children } : { children: React.ReactNode }) => {
+    const { user } = useAuth();
+    const [preferences, setPreferences] = useState<UserPreferences>(user?.prefs ?? {});
+
+    // Latest value for callers that update twice before a re-render
+    const latest = useRef(preferences);
+    latest.current = preferences;
+
+    useEffect(() => {
+        setPreferences(user?.prefs ?? {});
+    }, [user]);
+
+    const updatePreferences = async (changes: Partial<UserPreferences>) => {
+        const previous = latest.current;
+        const next = { ...previous, ...changes };
+
+        latest.current = next;
+        setPreferences(next);
+
+        // Signed-out changes only last for the session
+        if (!user) return;
+
+        try {
+            await savePreferences(next);
+        } catch (error) {
+            latest.current = previous;
+            setPreferences(previous);
+            throw error;
+        }
+    };
+
+    const locale = preferences.locale ?? getDeviceLocale();
+
+    // A layout effect runs before any screen's query effect, so they all
+    // fetch in the new language. Cache keys include the locale, so nothing
+    // fetched in the old one needs invalidating.
+    useLayoutEffect(() => {
+        setTmdbLocale(locale);
+    }, [locale]);
+
+    const region = preferences.region ?? getDeviceRegion();
+    const providerIds = preferences.providerIds;
+
+    const myServices = useMemo(
+        () => providerIds && providerIds.length > 0 ? { region, providerIds } : undefined,
+        [region, providerIds]
+    );
+
+    const contextData = {
+        preferences,
+        locale,
+        region,
+        myServices,
+        updatePreferences
+    };
+
+    return (
+        <PreferencesContext.Provider value={contextData}>
+            {children}
+        </PreferencesContext.Provider>
+    );
+};
+
+const usePreferences = () => {
+    const context = useContext(PreferencesContext);
+    if (context === undefined) {
+        throw new Error('usePreferences must be used within a PreferencesProvider');
+    }
+    return context;
+};
+
+export { PreferencesContext, PreferencesProvider, usePreferences };
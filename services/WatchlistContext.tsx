@@ -0,0 +1,212 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { useAuth } from "./AuthContext";
+import { getWatchedTitles, getWatchlist, markWatched, saveMovie, unmarkWatched, unsaveMovie, watchlistDocumentId } from "./appwrite";
+import { createLogger } from "./logger";
+import { mediaTypeOf } from "./media";
+
+const log = createLogger("WatchlistContext");
+
+export interface WatchlistContextType {
+  savedMovies: SavedMovie[];
+  isLoading: boolean;
+  isSaved: (movieId: number, mediaType?: MediaType) => boolean;
+  toggleSaved: (movie: SaveableMovie) => Promise<void>;
+  removeSaved: (movieId: number, mediaType?: MediaType) => Promise<void>;
+  watchedTitles: WatchedTitle[];
+  isWatched: (movieId: number, mediaType?: MediaType) => boolean;
+  // Independent of the watchlist: a title can be watched without being saved
+  toggleWatched: (movie: SaveableMovie) => Promise<void>;
+  refreshWatchlist: () => Promise<void>;
+}
+
+const WatchlistContext = createContext<WatchlistContextType | undefined>(undefined);
+
+// Placeholder entry shown while the Appwrite write is still in flight
+const toOptimisticEntry = (userId: string, movie: SaveableMovie): SavedMovie => ({
+    $id: watchlistDocumentId(userId, movie.id, mediaTypeOf(movie)),
+    $createdAt: new Date().toISOString(),
+    user_id: userId,
+    media_type: mediaTypeOf(movie),
+    movie_id: movie.id,
+    title: movie.title,
+    poster_path: movie.poster_path,
+    vote_average: movie.vote_average,
+    release_date: movie.release_date
+});
+
+const toOptimisticWatched = (userId: string, movie: SaveableMovie): WatchedTitle => ({
+    $id: watchlistDocumentId(userId, movie.id, mediaTypeOf(movie)),
+    $createdAt: new Date().toISOString(),
+    user_id: userId,
+    media_type: mediaTypeOf(movie),
+    movie_id: movie.id,
+    title: movie.title,
+    poster_path: movie.poster_path,
+    watched_at: new Date().toISOString()
+});
+
+// Movie and TV IDs come from separate TMDB catalogs and can overlap
+const entryKey = (movieId: number, mediaType: MediaType) => `${mediaType}:${movieId}`;
+
+const matches = (entry: SavedMovie | WatchedTitle, movieId: number, mediaType: MediaType) =>
+    entry.movie_id === movieId && mediaTypeOf(entry) === mediaType;
+
+const WatchlistProvider = ({ children } : { children: React.ReactNode }) => {
+    const { user } = useAuth();
+    const [savedMovies, setSavedMovies] = useState<SavedMovie[]>([]);
+    const [watchedTitles, setWatchedTitles] = useState<WatchedTitle[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    // Entries with a write in flight, so repeated taps can't race each other
+    const pending = useRef(new Set<string>());
+
+    const refreshWatchlist = useCallback(async () => {
+        if (!user) {
+            setSavedMovies([]);
+            setWatchedTitles([]);
+            return;
+        }
+
+        try {
+            setIsLoading(true);
+            const [saved, watched] = await Promise.all([getWatchlist(user.$id), getWatchedTitles(user.$id)]);
+            setSavedMovies(saved);
+            setWatchedTitles(watched);
+        } catch (error) {
+            log.error("Error loading watchlist", error);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [user]);
+
+    useEffect(() => {
+        refreshWatchlist();
+    }, [refreshWatchlist]);
+
+    const isSaved = useCallback(
+        (movieId: number, mediaType: MediaType = 'movie') => savedMovies.some((entry) => matches(entry, movieId, mediaType)),
+        [savedMovies]
+    );
+
+    const add = async (userId: string, movie: SaveableMovie) => {
+        const mediaType = mediaTypeOf(movie);
+        const optimistic = toOptimisticEntry(userId, movie);
+        setSavedMovies((current) => [optimistic, ...current]);
+
+        try {
+            const document = await saveMovie(userId, movie);
+            setSavedMovies((current) => current.map((entry) => matches(entry, movie.id, mediaType) ? document : entry));
+        } catch (error) {
+            setSavedMovies((current) => current.filter((entry) => !matches(entry, movie.id, mediaType)));
+            throw error;
+        }
+    };
+
+    const remove = async (userId: string, movieId: number, mediaType: MediaType) => {
+        const index = savedMovies.findIndex((entry) => matches(entry, movieId, mediaType));
+        if (index === -1) return;
+
+        const removed = savedMovies[index];
+        setSavedMovies((current) => current.filter((entry) => !matches(entry, movieId, mediaType)));
+
+        try {
+            await unsaveMovie(userId, movieId, mediaType);
+        } catch (error) {
+            // Put the entry back where it was
+            setSavedMovies((current) => {
+                const restored = [...current];
+                restored.splice(Math.min(index, restored.length), 0, removed);
+                return restored;
+            });
+            throw error;
+        }
+    };
+
+    const isWatched = useCallback(
+        (movieId: number, mediaType: MediaType = 'movie') =>
+            watchedTitles.some((entry) => matches(entry, movieId, mediaType)),
+        [watchedTitles]
+    );
+
+    const updateWatched = async (userId: string, movie: SaveableMovie) => {
+        const mediaType = mediaTypeOf(movie);
+        const existing = watchedTitles.find((entry) => matches(entry, movie.id, mediaType));
+        const without = (current: WatchedTitle[]) => current.filter((entry) => !matches(entry, movie.id, mediaType));
+
+        if (existing) {
+            setWatchedTitles(without);
+
+            try {
+                await unmarkWatched(userId, movie.id, mediaType);
+            } catch (error) {
+                setWatchedTitles((current) => [existing, ...current]);
+                throw error;
+            }
+            return;
+        }
+
+        setWatchedTitles((current) => [toOptimisticWatched(userId, movie), ...current]);
+
+        try {
+            const document = await markWatched(userId, movie);
+            setWatchedTitles((current) => current.map((entry) => matches(entry, movie.id, mediaType) ? document : entry));
+        } catch (error) {
+            setWatchedTitles(without);
+            throw error;
+        }
+    };
+
+    const withPending = async (key: string, action: (userId: string) => Promise<void>) => {
+        if (!user || pending.current.has(key)) return;
+
+        pending.current.add(key);
+        try {
+            await action(user.$id);
+        } finally {
+            pending.current.delete(key);
+        }
+    };
+
+    const toggleSaved = (movie: SaveableMovie) => {
+        const mediaType = mediaTypeOf(movie);
+        return withPending(entryKey(movie.id, mediaType), (userId) =>
+            isSaved(movie.id, mediaType) ? remove(userId, movie.id, mediaType) : add(userId, movie)
+        );
+    };
+
+    const removeSaved = (movieId: number, mediaType: MediaType = 'movie') =>
+        withPending(entryKey(movieId, mediaType), (userId) => remove(userId, movieId, mediaType));
+
+    // Saving and marking watched touch different documents, so they don't
+    // block each other
+    const toggleWatched = (movie: SaveableMovie) =>
+        withPending(`watched:${entryKey(movie.id, mediaTypeOf(movie))}`, (userId) => updateWatched(userId, movie));
+
+    const contextData = {
+        savedMovies,
+        isLoading,
+        isSaved,
+        toggleSaved,
+        removeSaved,
+        watchedTitles,
+        isWatched,
+        toggleWatched,
+        refreshWatchlist
+    };
+
+    return (
+        <WatchlistContext.Provider value={contextData}>
+            {children}
+        </WatchlistContext.Provider>
+    );
+};
+
+const useWatchlist = () => {
+    const context = useContext(WatchlistContext);
+    if (context === undefined) {
+        throw new Error('useWatchlist must be used within a WatchlistProvider');
+    }
+    return context;
+};
+
+export { WatchlistContext, WatchlistProvider, useWatchlist };
@@ -1,3 +1,13 @@
+import { errorFromResponse, toAppError } from './errors'
+import { getDeviceLocale, regionOf } from './locale'
+import { createLogger } from './logger'
+import { DEFAULT_FILTERS, applyFilters, toDiscoverParams } from './movieFilters'
+import { fetchQuery } from './queryCache'
+import { queryKeys } from './queryKeys'
+import { isOnMyServices } from './watchProviders'
+
+const log = createLogger('api');
+
 export const TMDB_CONFIG = {
     BASE_URL: 'https://api.themoviedb.org/3',
     API_KEY: process.env.EXPO_PUBLIC_MOVIE_API_KEY,
@@ -7,44 +17,194 @@ export const TMDB_CONFIG = {
     }
 }
 
-export const fetchMovies = async ({ query }: { query: string}) => {
-    const endpoint = query
+const toQueryString = (params: Record<string, string | number>) =>
+    Object.entries(params)
+        .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+        .join('&');
 
-        ? `${TMDB_CONFIG.BASE_URL}/search/movie?query=${encodeURIComponent(query)}`
-        : `${TMDB_CONFIG.BASE_URL}/discover/movie?sort_by=popularity.desc`;
+// Every TMDB request is made in the user's locale; set from their preferences
+let tmdbLocale = getDeviceLocale();
 
+export const setTmdbLocale = (locale: string) => {
+    tmdbLocale = locale;
+};
 
-    const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: TMDB_CONFIG.headers,
-    });
+const tmdbUrl = (path: string, params: Record<string, string | number> = {}) => {
+    const region = regionOf(tmdbLocale);
+    const localeParams: Record<string, string> = region
+        ? { language: tmdbLocale, region }
+        : { language: tmdbLocale };
 
-    if(!response.ok)
-    {
-        //@ts-ignore
-        throw new Error('Failed to fetch movies', response.statusText);
+    return `${TMDB_CONFIG.BASE_URL}${path}?${toQueryString({ ...localeParams, ...params })}`;
+};
+
+// Retries, 429s included, are left to the query cache every caller goes through
+const tmdbGet = async <T>(url: string, failureMessage: string, signal?: AbortSignal): Promise<T> => {
+    let response: Response;
+
+    try {
+        response = await fetch(url, {
+            method: 'GET',
+            headers: TMDB_CONFIG.headers,
+            signal,
+        });
+    } catch (error) {
+        throw toAppError(error);
     }
 
-    const data = await response.json();
+    if (!response.ok) throw await errorFromResponse(response, failureMessage);
+
+    return response.json() as Promise<T>;
+};
 
-    return data.results;
+interface FetchMoviesParams {
+    query: string
+    page?: number
+    filters?: MovieFilters
+    signal?: AbortSignal
 }
 
-export const fetchMovieDetails = async (movieId: string): Promise<MovieDetails> => {
-    try {
-        const response = await fetch(`${TMDB_CONFIG.BASE_URL}/movie/${movieId}?api_key=${TMDB_CONFIG.API_KEY}`, {
-            method: 'GET',
-            headers: TMDB_CONFIG.headers
-        })
+const PROVIDER_LOOKUP_CONCURRENCY = 4;
+const PROVIDER_LOOKUP_STALE_TIME = 60 * 60 * 1000;
 
-        if (!response.ok) throw new Error('Failed to fetch movie details')
-        
-        const data  = await response.json()
+// Like Promise.all over `items`, with at most `limit` calls in flight
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> => {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await task(items[index]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
 
-        return data
+export const fetchMovies = async ({ query, page = 1, filters = DEFAULT_FILTERS, signal }: FetchMoviesParams): Promise<PaginatedResponse<Movie>> => {
+    const endpoint = query
+        ? tmdbUrl('/search/movie', { query, page })
+        : tmdbUrl('/discover/movie', { ...toDiscoverParams(filters), page });
+
+    const data = await tmdbGet<PaginatedResponse<Movie>>(endpoint, 'Failed to fetch movies', signal);
+
+    const results: Movie[] = data.results ?? [];
+    let filtered = query ? applyFilters(results, filters) : results;
+
+    // Search results carry no availability, so each remaining movie is looked
+    // up. Lookups go through the query cache, which movie details share, and
+    // only a few run at once to stay clear of TMDB's rate limit.
+    if (query && filters.myServices) {
+        const { myServices } = filters;
+        const available = await mapWithConcurrency(filtered, PROVIDER_LOOKUP_CONCURRENCY, (movie) =>
+            fetchQuery(
+                queryKeys.watchProviders(String(movie.id), tmdbLocale),
+                (lookupSignal) => fetchWatchProviders(movie.id, lookupSignal),
+                { signal, staleTime: PROVIDER_LOOKUP_STALE_TIME }
+            ).then((providers) => isOnMyServices(providers, myServices))
+        );
+        filtered = filtered.filter((_, index) => available[index]);
+    }
+
+    return {
+        page: data.page,
+        results: filtered,
+        total_pages: data.total_pages,
+        total_results: data.total_results
+    };
+}
+
+export const fetchMovieDetails = async (movieId: string, signal?: AbortSignal): Promise<MovieDetails> => {
+    try {
+        return await tmdbGet(tmdbUrl(`/movie/${movieId}`, { append_to_response: 'credits' }), 'Failed to fetch movie details', signal)
     } catch (error)
     {
-        console.log(error)
+        log.error("fetchMovieDetails failed", error)
         throw error
     }
-}
\ No newline at end of file
+}
+
+export const fetchGenres = async (signal?: AbortSignal): Promise<Genre[]> => {
+    const data = await tmdbGet<{ genres?: Genre[] }>(tmdbUrl('/genre/movie/list'), 'Failed to fetch genres', signal);
+
+    return data.genres ?? [];
+}
+
+export const fetchMovieVideos = async (movieId: string, language: string, signal?: AbortSignal): Promise<MovieVideo[]> => {
+    // Ask for the user's language plus English and language-less uploads,
+    // since most titles only have English trailers
+    const languages = Array.from(new Set([language, 'en', 'null'])).join(',');
+
+    const data = await tmdbGet<{ results?: MovieVideo[] }>(tmdbUrl(`/movie/${movieId}/videos`, { include_video_language: languages }), 'Failed to fetch movie videos', signal);
+
+    return data.results ?? [];
+}
+
+const fetchMovieList = async (path: string, signal?: AbortSignal): Promise<PaginatedResponse<Movie>> => {
+    const data = await tmdbGet<PaginatedResponse<Movie>>(tmdbUrl(path), 'Failed to fetch movies', signal);
+
+    return {
+        page: data.page,
+        results: data.results ?? [],
+        total_pages: data.total_pages,
+        total_results: data.total_results
+    };
+}
+
+export const fetchSimilarMovies = (movieId: string, signal?: AbortSignal) =>
+    fetchMovieList(`/movie/${movieId}/similar`, signal)
+
+export const fetchRecommendedMovies = (movieId: string, signal?: AbortSignal) =>
+    fetchMovieList(`/movie/${movieId}/recommendations`, signal)
+
+export const fetchCollection = (collectionId: string, signal?: AbortSignal): Promise<MovieCollection> =>
+    tmdbGet(tmdbUrl(`/collection/${collectionId}`), 'Failed to fetch collection', signal)
+
+export const fetchWatchProviders = async (movieId: string | number, signal?: AbortSignal): Promise<Record<string, WatchProviderAvailability>> => {
+    const data = await tmdbGet<{ results?: Record<string, WatchProviderAvailability> }>(tmdbUrl(`/movie/${movieId}/watch/providers`), 'Failed to fetch watch providers', signal);
+    return data.results ?? {};
+}
+
+export const fetchWatchRegions = async (signal?: AbortSignal): Promise<WatchRegion[]> => {
+    const data = await tmdbGet<{ results?: WatchRegion[] }>(tmdbUrl('/watch/providers/regions'), 'Failed to fetch regions', signal);
+    const regions: WatchRegion[] = data.results ?? [];
+    return regions.sort((a, b) => a.english_name.localeCompare(b.english_name));
+}
+
+export const fetchProviderCatalog = async (region: string, signal?: AbortSignal): Promise<WatchProvider[]> => {
+    const data = await tmdbGet<{ results?: WatchProvider[] }>(tmdbUrl('/watch/providers/movie', { watch_region: region }), 'Failed to fetch streaming services', signal);
+    const providers: WatchProvider[] = data.results ?? [];
+    return providers.sort((a, b) => a.display_priority - b.display_priority);
+}
+
+export const fetchPersonDetails = (personId: string, signal?: AbortSignal): Promise<PersonDetails> =>
+    tmdbGet(tmdbUrl(`/person/${personId}`, { append_to_response: 'movie_credits' }), 'Failed to fetch person details', signal)
+
+export const searchPeople = async ({ query, signal }: { query: string, signal?: AbortSignal }): Promise<PersonSummary[]> => {
+    const data = await tmdbGet<{ results?: PersonSummary[] }>(tmdbUrl('/search/person', { query }), 'Failed to search people', signal);
+
+    return data.results ?? [];
+}
+
+export const fetchTvShows = async ({ query, page = 1, signal }: { query: string, page?: number, signal?: AbortSignal }): Promise<PaginatedResponse<TvShow>> => {
+    const endpoint = query
+        ? tmdbUrl('/search/tv', { query, page })
+        : tmdbUrl('/discover/tv', { sort_by: 'popularity.desc', page });
+
+    const data = await tmdbGet<PaginatedResponse<TvShow>>(endpoint, 'Failed to fetch TV shows', signal);
+
+    return {
+        page: data.page,
+        results: data.results ?? [],
+        total_pages: data.total_pages,
+        total_results: data.total_results
+    };
+}
+
+export const fetchTvDetails = (tvId: string, signal?: AbortSignal): Promise<TvDetails> =>
+    tmdbGet(tmdbUrl(`/tv/${tvId}`, { append_to_response: 'credits' }), 'Failed to fetch TV show details', signal)
+
+export const fetchTvSeason = (tvId: string, seasonNumber: number, signal?: AbortSignal): Promise<TvSeason> =>
+    tmdbGet(tmdbUrl(`/tv/${tvId}/season/${seasonNumber}`), 'Failed to fetch season', signal)
@@ -1,12 +1,26 @@
 // track the searches made by a user
 
-import { Account, Client, Databases, ID, Query, OAuthProvider } from "react-native-appwrite"
-import { Platform, Linking } from "react-native"
+import { Account, AppwriteException, Client, Databases, ID, Models, Query, OAuthProvider, Permission, Role } from "react-native-appwrite"
+import { Platform } from "react-native"
 import * as WebBrowser from 'expo-web-browser'
 import { makeRedirectUri } from 'expo-auth-session'
+import { User } from '../types/auth'
+import { authLinkUrl } from './authLinks'
+import { isEmailVerified } from './authState'
+import { UnauthorizedError, UnverifiedError, toAppError } from './errors'
+import { createLogger } from './logger'
+import { isTvShow } from './media'
+import { findOAuthProvider } from './oauthProviders'
+import { DEFAULT_TRENDING_WINDOW, aggregateTrending, dayNumber, normalizeSearchTerm, rankSearchTerms, windowStartDay } from './trending'
 
 const DATABASE_ID = process.env.EXPO_PUBLIC_APPWRITE_DATABASE_ID!
-const COLLECTION_ID = process.env.EXPO_PUBLIC_APPWRITE_COLLECTION_ID!
+// Trending events and reviews are shared with everyone, so their collections
+// must grant create only to Role.users('verified'). The checks below only
+// fail early; that permission is what enforces it.
+const TRENDING_EVENTS_COLLECTION_ID = process.env.EXPO_PUBLIC_APPWRITE_TRENDING_EVENTS_COLLECTION_ID!
+const WATCHLIST_COLLECTION_ID = process.env.EXPO_PUBLIC_APPWRITE_WATCHLIST_COLLECTION_ID!
+const WATCHED_COLLECTION_ID = process.env.EXPO_PUBLIC_APPWRITE_WATCHED_COLLECTION_ID!
+const REVIEWS_COLLECTION_ID = process.env.EXPO_PUBLIC_APPWRITE_REVIEWS_COLLECTION_ID!
 
 const client = new Client()
     .setEndpoint(process.env.EXPO_PUBLIC_APPWRITE_ENDPOINT!)
@@ -24,13 +38,15 @@ switch(Platform.OS){
 const database = new Databases(client)
 const account = new Account(client)
 
+const log = createLogger('appwrite')
+
 export const createAccount = async (email: string, password: string, name: string) => {
     try {
         const newAccount = await account.create(ID.unique(), email, password, name)
         return newAccount
     } catch (error) {
-        console.log(error)
-        throw(error)
+        log.error("createAccount failed", error)
+        throw toAppError(error)
     }
 }
 
@@ -39,16 +55,85 @@ export const signIn = async (email: string, password: string) => {
         const session = await account.createEmailPasswordSession(email, password)
         return session
     } catch (error) {
-        console.log(error)
-        throw error
+        log.error("signIn failed", error)
+        throw toAppError(error)
+    }
+}
+
+// Appwrite emails a link back into the app's /reset-password route, adding
+// userId, secret and expire to the query string
+export const requestPasswordRecovery = async (email: string) => {
+    try {
+        await account.createRecovery(email, authLinkUrl('reset-password'))
+    } catch (error) {
+        log.error("requestPasswordRecovery failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const completePasswordRecovery = async (userId: string, secret: string, password: string) => {
+    try {
+        await account.updateRecovery(userId, secret, password)
+    } catch (error) {
+        log.error("completePasswordRecovery failed", error)
+        throw toAppError(error)
+    }
+}
+
+// Sent to the signed-in user; the link opens the app's /verify-email route
+export const sendVerificationEmail = async () => {
+    try {
+        await account.createVerification(authLinkUrl('verify-email'))
+    } catch (error) {
+        log.error("sendVerificationEmail failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const confirmEmailVerification = async (userId: string, secret: string) => {
+    try {
+        await account.updateVerification(userId, secret)
+    } catch (error) {
+        log.error("confirmEmailVerification failed", error)
+        throw toAppError(error)
     }
 }
 
-export const getCurrentUser = async() => {
+// Passwordless sign-in. Both calls return the account's real userId, which is
+// needed again to exchange the code or link secret for a session.
+export const sendSignInCode = async (email: string): Promise<Models.Token> => {
     try {
-        console.log("appwrite.ts: Calling account.get()");
+        return await account.createEmailToken(ID.unique(), email)
+    } catch (error) {
+        log.error("sendSignInCode failed", error)
+        throw toAppError(error)
+    }
+}
+
+// The link opens the app's /magic-link route with userId, secret and expire
+export const sendMagicLink = async (email: string): Promise<Models.Token> => {
+    try {
+        return await account.createMagicURLToken(ID.unique(), email, authLinkUrl('magic-link'))
+    } catch (error) {
+        log.error("sendMagicLink failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const signInWithToken = async (userId: string, secret: string) => {
+    try {
+        return await account.createSession(userId, secret)
+    } catch (error) {
+        log.error("signInWithToken failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const getCurrentUser = async (): Promise<User | null> => {
+    try {
+        log.debug("Calling account.get()");
         const currentUser = await account.get()
-        console.log("appwrite.ts: account.get() success:", { 
+        log.debug("account.get() success", { 
             user: !!currentUser, 
             email: currentUser?.email,
             name: currentUser?.name,
@@ -56,56 +141,51 @@ export const getCurrentUser = async() => {
         });
         return currentUser
     } catch (error) {
-        console.log("appwrite.ts: account.get() error:", error);
-        return null
+        // Having no session is the normal signed-out case; anything else is a
+        // real failure the caller needs to hear about
+        const appError = toAppError(error)
+        if (appError instanceof UnauthorizedError) return null
+
+        log.error("account.get() failed", error);
+        throw appError
     }
 }
 
 export const getCurrentSession = async() => {
     try {
-        console.log("appwrite.ts: Getting current session...");
+        log.debug("Getting current session...");
         const session = await account.getSession('current');
-        console.log("appwrite.ts: Full session object:", JSON.stringify(session, null, 2));
-        console.log("appwrite.ts: Session info:", {
+        log.debug("Session info", {
             provider: session?.provider,
             providerUid: session?.providerUid,
             hasAccessToken: !!session?.providerAccessToken,
-            accessToken: session?.providerAccessToken ? "***PRESENT***" : "NOT_PRESENT",
             allKeys: Object.keys(session || {})
         });
         return session;
     } catch (error) {
-        console.log("appwrite.ts: Error getting session:", error);
+        log.debug("No current session", error);
         return null;
     }
 }
 
-export const getGoogleProfile = async (accessToken: string) => {
+export const getUserIdentities = async () => {
     try {
-        console.log("appwrite.ts: Fetching Google profile...");
-        const response = await fetch(`https://www.googleapis.com/oauth2/v2/userinfo?access_token=${accessToken}`);
-        const profile = await response.json();
-        console.log("appwrite.ts: Google profile:", {
-            hasName: !!profile?.name,
-            hasAvatar: !!profile?.picture,
-            email: profile?.email
-        });
-        return profile;
+        log.debug("Fetching user identities...");
+        const identities = await account.listIdentities();
+        log.debug("User identities", identities);
+        return identities;
     } catch (error) {
-        console.log("appwrite.ts: Error fetching Google profile:", error);
-        return null;
+        log.error("Error fetching identities", error);
+        throw toAppError(error);
     }
 }
 
-export const getUserIdentities = async () => {
+export const deleteIdentity = async (identityId: string) => {
     try {
-        console.log("appwrite.ts: Fetching user identities...");
-        const identities = await account.listIdentities();
-        console.log("appwrite.ts: User identities:", JSON.stringify(identities, null, 2));
-        return identities;
+        await account.deleteIdentity(identityId);
     } catch (error) {
-        console.log("appwrite.ts: Error fetching identities:", error);
-        return null;
+        log.error("deleteIdentity failed", error);
+        throw toAppError(error);
     }
 }
 
@@ -121,38 +201,39 @@ export const isTokenExpired = (expiryDateString: string): boolean => {
 
 export const refreshOAuthSession = async (sessionId: string = 'current') => {
     try {
-        console.log("appwrite.ts: Refreshing OAuth session...");
+        log.debug("Refreshing OAuth session...");
         const updatedSession = await account.updateSession(sessionId);
-        console.log("appwrite.ts: OAuth session refreshed successfully");
+        log.debug("OAuth session refreshed successfully");
         return updatedSession;
     } catch (error) {
-        console.log("appwrite.ts: Error refreshing OAuth session:", error);
-        throw error;
+        log.error("Error refreshing OAuth session", error);
+        throw toAppError(error);
     }
 }
 
 export const checkAndRefreshOAuthTokens = async () => {
     try {
-        console.log("appwrite.ts: Checking OAuth token expiry...");
+        log.debug("Checking OAuth token expiry...");
         const identities = await getUserIdentities();
         
         if (identities && identities.identities) {
-            const googleIdentity = identities.identities.find((identity: any) => 
-                identity.provider?.toLowerCase().includes('google')
+            const oauthIdentity = identities.identities.find((identity) => 
+                !!findOAuthProvider(identity.provider)
             );
             
-            if (googleIdentity && googleIdentity.providerAccessTokenExpiry) {
-                const isExpired = isTokenExpired(googleIdentity.providerAccessTokenExpiry);
-                console.log("appwrite.ts: Token status:", {
-                    expiry: googleIdentity.providerAccessTokenExpiry,
+            if (oauthIdentity && oauthIdentity.providerAccessTokenExpiry) {
+                const isExpired = isTokenExpired(oauthIdentity.providerAccessTokenExpiry);
+                log.debug("Token status", {
+                    provider: oauthIdentity.provider,
+                    expiry: oauthIdentity.providerAccessTokenExpiry,
                     isExpired,
-                    timeUntilExpiry: new Date(googleIdentity.providerAccessTokenExpiry).getTime() - Date.now()
+                    timeUntilExpiry: new Date(oauthIdentity.providerAccessTokenExpiry).getTime() - Date.now()
                 });
                 
                 if (isExpired) {
-                    console.log("appwrite.ts: Token expired or expiring soon, refreshing...");
+                    log.debug("Token expired or expiring soon, refreshing...");
                     await refreshOAuthSession();
-                    console.log("appwrite.ts: Token refresh completed");
+                    log.debug("Token refresh completed");
                     return true; // Token was refreshed
                 }
             }
@@ -160,7 +241,7 @@ export const checkAndRefreshOAuthTokens = async () => {
         
         return false; // No refresh needed
     } catch (error) {
-        console.log("appwrite.ts: Error checking/refreshing OAuth tokens:", error);
+        log.error("Error checking/refreshing OAuth tokens", error);
         return false;
     }
 }
@@ -170,83 +251,383 @@ export const signOut = async() => {
         await account.deleteSession('current')
         return true
     } catch (error) {
-        console.log(error)
-        throw error
+        log.error("signOut failed", error)
+        throw toAppError(error)
+    }
+}
+
+// Appwrite replaces the whole prefs object, so callers pass every key they want to keep
+export const updatePreferences = async (prefs: UserPreferences): Promise<UserPreferences> => {
+    try {
+        const updated = await account.updatePrefs(prefs)
+        return updated.prefs as UserPreferences
+    } catch (error) {
+        log.error("updatePreferences failed", error)
+        throw toAppError(error)
     }
 }
 
-export const updateSearchCount = async (query: string, movie: Movie) => {
+// A title counts at most once per user per day. The event ID is
+// derived from those three, so a repeat search is rejected by Appwrite with a
+// conflict instead of being counted again, and concurrent searches never race
+// on a shared counter. Appwrite caps IDs at 36 characters: 20 for the user,
+// the media type, up to 8 digits of TMDB ID and 5 for the day fit.
+const trendingEventId = (userKey: string, movieId: number, mediaType: MediaType, day: number) =>
+    `${userKey}_${mediaType === 'tv' ? 't' : 'm'}${movieId}_${day}`
+
+const isConflict = (error: unknown) => error instanceof AppwriteException && error.code === 409
+const isNotFound = (error: unknown) => error instanceof AppwriteException && error.code === 404
+
+// Saves a request the collection permissions would reject anyway
+const requireVerified = (user: User) => {
+    if (!isEmailVerified(user)) throw new UnverifiedError()
+}
+
+export const updateSearchCount = async (query: string, movie: Movie | TvShow, user: User) => {
+    requireVerified(user)
+
+    const mediaType: MediaType = isTvShow(movie) ? 'tv' : 'movie'
+    const userKey = user.$id
+    const day = dayNumber()
+
+    const event: TrendingEvent = {
+        movie_id: movie.id,
+        media_type: mediaType,
+        title: isTvShow(movie) ? movie.name : movie.title,
+        poster_path: movie.poster_path,
+        search_term: normalizeSearchTerm(query),
+        user_key: userKey,
+        day
+    }
 
     try {
-        const result = await database.listDocuments(DATABASE_ID, COLLECTION_ID, [
-            Query.equal('searchTerm', query)
-        ])
+        await database.createDocument(
+            DATABASE_ID,
+            TRENDING_EVENTS_COLLECTION_ID,
+            trendingEventId(userKey, movie.id, mediaType, day),
+            event,
+            [Permission.read(Role.any())]
+        )
+    } catch (error) {
+        // Already counted today
+        if (isConflict(error)) return
+        log.error("updateSearchCount failed", error)
+        throw toAppError(error)
+    }
+}
 
-        if (result.documents.length > 0)
-        {
-            const existingMovie = result.documents[0]
+// Appwrite can't group documents, so events within a window are read and
+// tallied here. The newest MAX_TRENDING_EVENTS are enough to rank the top few
+// titles of a day or a week; for all time they rank what's been searched
+// lately rather than every search ever made.
+const TRENDING_PAGE_SIZE = 1000
+const MAX_TRENDING_EVENTS = 10000
 
-            await database.updateDocument(
-                DATABASE_ID,
-                COLLECTION_ID,
-                existingMovie.$id,
-                {
-                    count: existingMovie.count + 1
-                }
-            )
-        } else {
-            await database.createDocument(DATABASE_ID, COLLECTION_ID, ID.unique(), {
-            searchTerm: query,
-            movie_id: movie.id,
-            count: 1,
-            title: movie.title,
-            poster_url: `https://inage.tmdb.org/t/p/w500${movie.poster_path}`
-            })
+export const getTrendingMovies = async (window: TrendingWindow = DEFAULT_TRENDING_WINDOW): Promise<TrendingMovie[]> => {
+    const startDay = windowStartDay(window)
+    const events: TrendingEvent[] = []
+
+    try {
+        let cursor: string | null = null
+
+        while (events.length < MAX_TRENDING_EVENTS) {
+            const result: Models.DocumentList<Models.Document> = await database.listDocuments(DATABASE_ID, TRENDING_EVENTS_COLLECTION_ID, [
+                ...(startDay !== null ? [Query.greaterThanEqual('day', startDay)] : []),
+                Query.select(['$id', 'movie_id', 'media_type', 'title', 'poster_path', 'search_term']),
+                Query.orderDesc('$createdAt'),
+                Query.limit(TRENDING_PAGE_SIZE),
+                ...(cursor ? [Query.cursorAfter(cursor)] : [])
+            ])
+
+            events.push(...result.documents as unknown as TrendingEvent[])
+            if (result.documents.length < TRENDING_PAGE_SIZE) break
+
+            cursor = result.documents[result.documents.length - 1].$id
         }
+
+        return aggregateTrending(events, 5)
+    } catch(error) {
+        log.error("getTrendingMovies failed", error)
+        throw toAppError(error)
+    }
+}
+
+// Popular searches starting with what the user has typed so far, taken from
+// the most recent trending events
+export const getPopularSearchTerms = async (prefix: string, limit: number = 5): Promise<string[]> => {
+    try {
+        const result = await database.listDocuments(DATABASE_ID, TRENDING_EVENTS_COLLECTION_ID, [
+            Query.startsWith('search_term', normalizeSearchTerm(prefix)),
+            Query.select(['search_term']),
+            Query.orderDesc('$createdAt'),
+            Query.limit(200)
+        ])
+
+        return rankSearchTerms(result.documents.map((document) => document.search_term as string), limit)
     } catch (error) {
-        console.log(error)
-        throw error
+        log.error("getPopularSearchTerms failed", error)
+        throw toAppError(error)
     }
-    
-    // check if a record of that search has already been stored
-    // if a document is found increment the searchCount field
-    // if no document is found create a
-        // new document in Appwrite database and initialise its count to 1
 }
 
-export const getTrendingMovies = async(): Promise<TrendingMovie[] | undefined> => {
+// One document per user and title; the deterministic ID makes saving idempotent
+// and lets us delete an entry without looking it up first. Movie IDs keep the
+// original unprefixed form so entries saved before TV support still match.
+export const watchlistDocumentId = (userId: string, movieId: number, mediaType: MediaType = 'movie') =>
+    mediaType === 'tv' ? `${userId}_tv${movieId}` : `${userId}_${movieId}`
+
+const LIST_PAGE_SIZE = 100
+
+// Every one of a user's documents in a collection, a page at a time; isSaved,
+// isWatched and the Saved tab need the whole list
+const listAllForUser = async <T>(collectionId: string, userId: string): Promise<T[]> => {
+    const documents: T[] = []
+    let cursor: string | null = null
+
+    while (true) {
+        const result: Models.DocumentList<Models.Document> = await database.listDocuments(DATABASE_ID, collectionId, [
+            Query.equal('user_id', userId),
+            Query.orderDesc('$createdAt'),
+            Query.limit(LIST_PAGE_SIZE),
+            ...(cursor ? [Query.cursorAfter(cursor)] : [])
+        ])
+
+        documents.push(...result.documents as unknown as T[])
+        if (result.documents.length < LIST_PAGE_SIZE) break
+
+        cursor = result.documents[result.documents.length - 1].$id
+    }
+
+    return documents
+}
+
+export const getWatchlist = async (userId: string): Promise<SavedMovie[]> => {
     try {
-        const result = await database.listDocuments(DATABASE_ID, COLLECTION_ID, [
-            Query.limit(5),
-            Query.orderDesc('count')
+        return await listAllForUser<SavedMovie>(WATCHLIST_COLLECTION_ID, userId)
+    } catch (error) {
+        log.error("getWatchlist failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const saveMovie = async (userId: string, movie: SaveableMovie): Promise<SavedMovie> => {
+    try {
+        const document = await database.createDocument(
+            DATABASE_ID,
+            WATCHLIST_COLLECTION_ID,
+            watchlistDocumentId(userId, movie.id, movie.media_type),
+            {
+                user_id: userId,
+                media_type: movie.media_type ?? 'movie',
+                movie_id: movie.id,
+                title: movie.title,
+                poster_path: movie.poster_path,
+                vote_average: movie.vote_average,
+                release_date: movie.release_date
+            },
+            [
+                Permission.read(Role.user(userId)),
+                Permission.update(Role.user(userId)),
+                Permission.delete(Role.user(userId))
+            ]
+        )
+
+        return document as unknown as SavedMovie
+    } catch (error) {
+        log.error("saveMovie failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const unsaveMovie = async (userId: string, movieId: number, mediaType: MediaType = 'movie') => {
+    try {
+        await database.deleteDocument(DATABASE_ID, WATCHLIST_COLLECTION_ID, watchlistDocumentId(userId, movieId, mediaType))
+        return true
+    } catch (error) {
+        log.error("unsaveMovie failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const getWatchedTitles = async (userId: string): Promise<WatchedTitle[]> => {
+    try {
+        return await listAllForUser<WatchedTitle>(WATCHED_COLLECTION_ID, userId)
+    } catch (error) {
+        log.error("getWatchedTitles failed", error)
+        throw toAppError(error)
+    }
+}
+
+// Watched documents use the same IDs as watchlist ones, in their own collection
+export const markWatched = async (userId: string, movie: SaveableMovie): Promise<WatchedTitle> => {
+    try {
+        const document = await database.createDocument(
+            DATABASE_ID,
+            WATCHED_COLLECTION_ID,
+            watchlistDocumentId(userId, movie.id, movie.media_type),
+            {
+                user_id: userId,
+                media_type: movie.media_type ?? 'movie',
+                movie_id: movie.id,
+                title: movie.title,
+                poster_path: movie.poster_path,
+                watched_at: new Date().toISOString()
+            },
+            [
+                Permission.read(Role.user(userId)),
+                Permission.update(Role.user(userId)),
+                Permission.delete(Role.user(userId))
+            ]
+        )
+
+        return document as unknown as WatchedTitle
+    } catch (error) {
+        log.error("markWatched failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const unmarkWatched = async (userId: string, movieId: number, mediaType: MediaType = 'movie') => {
+    try {
+        await database.deleteDocument(DATABASE_ID, WATCHED_COLLECTION_ID, watchlistDocumentId(userId, movieId, mediaType))
+        return true
+    } catch (error) {
+        log.error("unmarkWatched failed", error)
+        throw toAppError(error)
+    }
+}
+
+// One review per user and movie, so rating again updates the same document
+const reviewDocumentId = (userId: string, movieId: number) => `${userId}_${movieId}`
+
+export const getUserReview = async (userId: string, movieId: number): Promise<MovieReview | null> => {
+    try {
+        const document = await database.getDocument(DATABASE_ID, REVIEWS_COLLECTION_ID, reviewDocumentId(userId, movieId))
+        return document as unknown as MovieReview
+    } catch (error) {
+        if (isNotFound(error)) return null
+        log.error("getUserReview failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const getMovieReviews = async (movieId: number): Promise<MovieReview[]> => {
+    try {
+        const result = await database.listDocuments(DATABASE_ID, REVIEWS_COLLECTION_ID, [
+            Query.equal('movie_id', movieId),
+            Query.isNotNull('review'),
+            Query.orderDesc('$updatedAt'),
+            Query.limit(20)
         ])
 
-        return result.documents as unknown as TrendingMovie[]
-    } catch(error) {
-        console.log(error)
-        return undefined
+        return result.documents as unknown as MovieReview[]
+    } catch (error) {
+        log.error("getMovieReviews failed", error)
+        throw toAppError(error)
+    }
+}
+
+// Appwrite has no aggregate queries, so the average is worked out from the
+// ratings themselves; past the limit it is an average of the most recent ones
+export const getRatingSummary = async (movieId: number): Promise<RatingSummary> => {
+    try {
+        const result = await database.listDocuments(DATABASE_ID, REVIEWS_COLLECTION_ID, [
+            Query.equal('movie_id', movieId),
+            Query.select(['rating']),
+            Query.orderDesc('$updatedAt'),
+            Query.limit(1000)
+        ])
+
+        const ratings = result.documents.map((document) => Number(document.rating))
+        const average = ratings.length > 0
+            ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length
+            : null
+
+        return { average, count: result.total }
+    } catch (error) {
+        log.error("getRatingSummary failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const saveReview = async (user: User, movieId: number, input: ReviewInput): Promise<MovieReview> => {
+    requireVerified(user)
+
+    const documentId = reviewDocumentId(user.$id, movieId)
+    const data = {
+        user_id: user.$id,
+        user_name: user.name || 'Anonymous',
+        movie_id: movieId,
+        rating: input.rating,
+        review: input.review?.trim() || null,
+        spoiler: input.review?.trim() ? input.spoiler : false
+    }
+
+    try {
+        const document = await database.updateDocument(DATABASE_ID, REVIEWS_COLLECTION_ID, documentId, data)
+        return document as unknown as MovieReview
+    } catch (error) {
+        if (!isNotFound(error)) {
+            log.error("saveReview failed", error)
+            throw toAppError(error)
+        }
+    }
+
+    try {
+        const document = await database.createDocument(
+            DATABASE_ID,
+            REVIEWS_COLLECTION_ID,
+            documentId,
+            data,
+            [
+                Permission.read(Role.any()),
+                Permission.update(Role.user(user.$id)),
+                Permission.delete(Role.user(user.$id))
+            ]
+        )
+
+        return document as unknown as MovieReview
+    } catch (error) {
+        log.error("saveReview failed", error)
+        throw toAppError(error)
+    }
+}
+
+export const deleteReview = async (userId: string, movieId: number) => {
+    try {
+        await database.deleteDocument(DATABASE_ID, REVIEWS_COLLECTION_ID, reviewDocumentId(userId, movieId))
+        return true
+    } catch (error) {
+        log.error("deleteReview failed", error)
+        throw toAppError(error)
     }
 }
 
-export const signInWithGoogle = async () => {
+// Works for any provider in services/oauthProviders.ts that is enabled in the
+// Appwrite console. The in-app browser has no Appwrite session, so the token
+// flow signs into whichever account the provider's email maps to, creating
+// one if there is none. When linking, pass the signed-in user's ID: a redirect
+// for any other account isn't turned into a session here, though by then that
+// account exists on the server.
+export const signInWithOAuth = async (provider: OAuthProvider, expectedUserId?: string) => {
     try {
-        console.log("appwrite.ts: Initiating Google OAuth following Appwrite documentation...");
+        log.debug("Initiating OAuth following Appwrite documentation...", { provider });
         
         // Create deep link that works across Expo environments (Appwrite official pattern)
         const deepLink = new URL(makeRedirectUri({ preferLocalhost: true }));
         const scheme = `${deepLink.protocol}//`; // e.g. 'exp://' or 'appwrite-callback-<PROJECT_ID>://'
         
-        console.log("appwrite.ts: Deep link:", deepLink.toString());
-        console.log("appwrite.ts: Scheme:", scheme);
+        log.debug("Deep link", deepLink.toString());
+        log.debug("Scheme", scheme);
         
         // Start OAuth flow (Appwrite official pattern)
         const loginUrl = await account.createOAuth2Token(
-            OAuthProvider.Google,
+            provider,
             `${deepLink}`, // success URL
             `${deepLink}`  // failure URL
         );
         
-        console.log("appwrite.ts: Opening login URL:", loginUrl.toString());
+        log.debug("Opening login URL", loginUrl.toString());
         
         // Open login URL in browser (Appwrite official pattern)
         const result = await WebBrowser.openAuthSessionAsync(
@@ -259,33 +640,40 @@ export const signInWithGoogle = async () => {
             }
         );
         
-        console.log("appwrite.ts: WebBrowser result:", result);
+        log.debug("WebBrowser result", result);
         
-        if (result.type === 'cancel') {
-            throw new Error('OAuth cancelled by user');
+        // Closing the browser isn't a failure; the caller just carries on
+        if (result.type === 'cancel' || result.type === 'dismiss') {
+            log.debug("OAuth cancelled by user");
+            return { type: 'cancelled' as const };
         }
         
         if (result.type === 'success' && result.url) {
-            console.log("appwrite.ts: Processing OAuth success URL:", result.url);
+            log.debug("Processing OAuth success URL", result.url);
             
             // Extract credentials from OAuth redirect URL (Appwrite official pattern)
             const url = new URL(result.url);
             const secret = url.searchParams.get('secret');
             const userId = url.searchParams.get('userId');
             
-            console.log("appwrite.ts: OAuth parameters:", { userId: !!userId, secret: !!secret });
+            log.debug("OAuth parameters", { userId: !!userId, secret: !!secret });
             
             if (userId && secret) {
+                if (expectedUserId && userId !== expectedUserId) {
+                    log.warn("OAuth redirect is for a different account, not switching");
+                    return { type: 'otherAccount' as const };
+                }
+
                 // Create session with OAuth credentials (Appwrite official pattern)
-                console.log("appwrite.ts: Creating session with OAuth credentials...");
+                log.debug("Creating session with OAuth credentials...");
                 const session = await account.createSession(userId, secret);
-                console.log("appwrite.ts: Session created successfully:", !!session);
+                log.debug("Session created successfully", !!session);
                 
                 // Get the current user to confirm authentication
                 const currentUser = await getCurrentUser();
                 if (currentUser) {
-                    console.log("appwrite.ts: OAuth successful, user session found");
-                    return { type: 'success', user: currentUser };
+                    log.debug("OAuth successful, user session found");
+                    return { type: 'success' as const, user: currentUser };
                 } else {
                     throw new Error('Session created but user not found');
                 }
@@ -297,7 +685,7 @@ export const signInWithGoogle = async () => {
         }
         
     } catch (error) {
-        console.log("appwrite.ts: Google OAuth error:", error);
-        throw error;
+        log.error("OAuth error", error);
+        throw toAppError(error);
     }
 }
\ No newline at end of file
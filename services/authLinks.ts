@@ -0,0 +1,14 @@
+import * as Linking from 'expo-linking'
+
+// Links Appwrite emails out (password recovery, verification) point back
+// into the app through its deep-link scheme
+export const authLinkUrl = (path: string) => Linking.createURL(path)
+
+// Appwrite puts the moment a link stops working in `expire`. Links without
+// one are left for Appwrite to judge.
+export const isLinkExpired = (expire: string | undefined, now: number = Date.now()) => {
+    if (!expire) return false
+
+    const expiresAt = Date.parse(expire)
+    return !Number.isNaN(expiresAt) && expiresAt <= now
+}
@@ -0,0 +1,68 @@
+import { AuthState, User, UserProfile } from '../types/auth'
+import { UnauthorizedError } from './errors'
+
+export type AuthEvent =
+    | { type: 'authStarted' }
+    | { type: 'refreshStarted' }
+    | { type: 'sessionFound', user: User, profile: UserProfile }
+    | { type: 'sessionMissing' }
+    | { type: 'failed', error: Error }
+    | { type: 'cancelled' }
+    | { type: 'signedOut' }
+
+export const INITIAL_AUTH_STATE: AuthState = { status: 'initializing' }
+
+// Every change to the auth state goes through here, so screens only ever see
+// the states listed in AuthState and never a mix of stale flags
+export const authReducer = (state: AuthState, event: AuthEvent): AuthState => {
+    switch (event.type) {
+        case 'authStarted':
+            return state.status === 'signedOut' || state.status === 'error'
+                ? { status: 'authenticating' }
+                : state
+
+        case 'refreshStarted':
+            switch (state.status) {
+                case 'signedIn':
+                case 'refreshing':
+                    return { status: 'refreshing', user: state.user, profile: state.profile }
+                case 'error':
+                    return { status: 'initializing' }
+                case 'signedOut':
+                    // Coming back from an OAuth redirect
+                    return { status: 'authenticating' }
+                default:
+                    return state
+            }
+
+        case 'sessionFound':
+            return { status: 'signedIn', user: event.user, profile: event.profile }
+
+        case 'sessionMissing':
+        case 'signedOut':
+            return { status: 'signedOut' }
+
+        // The user backed out of a flow, so go back to where they started
+        case 'cancelled':
+            if (state.status === 'authenticating') return { status: 'signedOut' }
+            if (state.status === 'refreshing') return { status: 'signedIn', user: state.user, profile: state.profile }
+            return state
+
+        case 'failed':
+            // A background refresh that fails keeps the user, unless the
+            // session itself has gone
+            if (state.status === 'refreshing') {
+                return event.error instanceof UnauthorizedError
+                    ? { status: 'signedOut' }
+                    : { status: 'signedIn', user: state.user, profile: state.profile }
+            }
+            return { status: 'error', error: event.error }
+    }
+}
+
+export const isSignedIn = (state: AuthState): state is Extract<AuthState, { user: User }> =>
+    state.status === 'signedIn' || state.status === 'refreshing'
+
+// Reviews and trending counts are seen by everyone, so only accounts with a
+// verified email may add to them. OAuth accounts arrive already verified.
+export const isEmailVerified = (user: User | null) => !!user?.emailVerification
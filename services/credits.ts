@@ -0,0 +1,29 @@
+import { TranslationKey } from '../constants/translations'
+
+export interface KeyCrewGroup {
+    labelKey: TranslationKey
+    people: CrewMember[]
+}
+
+// TMDB job titles that belong under each heading on the details screen
+const KEY_CREW_ROLES: { labelKey: TranslationKey, jobs: string[] }[] = [
+    { labelKey: 'movie.director', jobs: ['Director'] },
+    { labelKey: 'movie.writers', jobs: ['Screenplay', 'Writer', 'Story', 'Novel', 'Author'] },
+    { labelKey: 'movie.composer', jobs: ['Original Music Composer', 'Music'] },
+    { labelKey: 'movie.cinematographer', jobs: ['Director of Photography', 'Cinematography'] },
+]
+
+export const getKeyCrew = (crew: CrewMember[] = []): KeyCrewGroup[] =>
+    KEY_CREW_ROLES
+        .map(({ labelKey, jobs }) => {
+            const seen = new Set<number>()
+            // The same person is often credited for both "Screenplay" and "Story"
+            const people = crew.filter((member) => {
+                if (!jobs.includes(member.job) || seen.has(member.id)) return false
+                seen.add(member.id)
+                return true
+            })
+
+            return { labelKey, people }
+        })
+        .filter((group) => group.people.length > 0)
@@ -0,0 +1,190 @@
+import { AppwriteException } from 'react-native-appwrite'
+import { TranslationKey } from '../constants/translations'
+
+// One error model for TMDB and Appwrite, so screens can react to what went
+// wrong rather than to whichever message the server happened to send.
+
+export type ErrorKind =
+    | 'network'
+    | 'unauthorized'
+    | 'invalid-credentials'
+    | 'forbidden'
+    | 'unverified'
+    | 'not-found'
+    | 'rate-limited'
+    | 'server'
+    | 'validation'
+
+export class AppError extends Error {
+    readonly kind: ErrorKind
+    readonly status?: number
+
+    constructor(kind: ErrorKind, message: string, status?: number) {
+        super(message)
+        this.name = 'AppError'
+        this.kind = kind
+        this.status = status
+    }
+}
+
+export class NetworkError extends AppError {
+    constructor(message: string = 'Network request failed') {
+        super('network', message)
+        this.name = 'NetworkError'
+    }
+}
+
+export class UnauthorizedError extends AppError {
+    constructor(message: string = 'Not signed in', status: number = 401) {
+        super('unauthorized', message, status)
+        this.name = 'UnauthorizedError'
+    }
+}
+
+// A sign-in attempt with the wrong email or password, as opposed to a
+// session that has gone away
+export class InvalidCredentialsError extends AppError {
+    constructor(message: string = 'Invalid credentials') {
+        super('invalid-credentials', message, 401)
+        this.name = 'InvalidCredentialsError'
+    }
+}
+
+// Signed in, but not allowed to do this
+export class ForbiddenError extends AppError {
+    constructor(message: string = 'Forbidden') {
+        super('forbidden', message, 403)
+        this.name = 'ForbiddenError'
+    }
+}
+
+// Signed in, but the email address hasn't been confirmed yet
+export class UnverifiedError extends AppError {
+    constructor(message: string = 'Email not verified') {
+        super('unverified', message, 403)
+        this.name = 'UnverifiedError'
+    }
+}
+
+export class NotFoundError extends AppError {
+    constructor(message: string = 'Not found') {
+        super('not-found', message, 404)
+        this.name = 'NotFoundError'
+    }
+}
+
+export class RateLimitError extends AppError {
+    // How long the server asked us to wait, in milliseconds, when it said
+    readonly retryAfter: number | null
+
+    constructor(message: string = 'Too many requests', retryAfter: number | null = null) {
+        super('rate-limited', message, 429)
+        this.name = 'RateLimitError'
+        this.retryAfter = retryAfter
+    }
+}
+
+export class ServerError extends AppError {
+    constructor(message: string = 'Server error', status: number = 500) {
+        super('server', message, status)
+        this.name = 'ServerError'
+    }
+}
+
+export class ValidationError extends AppError {
+    constructor(message: string = 'Invalid request', status: number = 400) {
+        super('validation', message, status)
+        this.name = 'ValidationError'
+    }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (header: string | null, now: number = Date.now()) => {
+    if (!header) return null
+
+    const seconds = Number(header)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+    const date = Date.parse(header)
+    return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+export const errorFromStatus = (status: number, message: string, retryAfter: number | null = null): AppError => {
+    if (status === 401) return new UnauthorizedError(message, status)
+    if (status === 403) return new ForbiddenError(message)
+    if (status === 404) return new NotFoundError(message)
+    if (status === 429) return new RateLimitError(message, retryAfter)
+    if (status >= 500) return new ServerError(message, status)
+    return new ValidationError(message, status)
+}
+
+export const errorFromResponse = async (response: Response, fallbackMessage: string) => {
+    let message = fallbackMessage
+
+    try {
+        // TMDB explains itself in `status_message`
+        const body = await response.json()
+        message = body?.status_message || message
+    } catch {
+        // Not every error response has a JSON body
+    }
+
+    return errorFromStatus(response.status, message, parseRetryAfter(response.headers.get('Retry-After')))
+}
+
+export const isAbortError = (error: unknown) =>
+    error instanceof Error && error.name === 'AbortError'
+
+// Anything a client can throw, as an AppError. Aborts are passed through
+// untouched so cancellation keeps working.
+export const toAppError = (error: unknown): Error => {
+    if (error instanceof AppError || isAbortError(error)) return error as Error
+
+    if (error instanceof AppwriteException) {
+        // The SDK reports a failed fetch as code 0
+        if (!error.code) return new NetworkError(error.message)
+        if (error.type === 'user_invalid_credentials') return new InvalidCredentialsError(error.message)
+        return errorFromStatus(error.code, error.message)
+    }
+
+    // fetch rejects with a TypeError when there is no connection at all
+    if (error instanceof TypeError) return new NetworkError(error.message)
+
+    return error instanceof Error ? error : new Error('An error occurred')
+}
+
+export const isRetryable = (error: unknown) =>
+    error instanceof NetworkError || error instanceof ServerError || error instanceof RateLimitError
+
+// Whether a "Try again" button is worth showing; trying again won't find a
+// missing title or fix a bad request
+export const canRetryManually = (error: unknown) =>
+    !(error instanceof AppError) || isRetryable(error)
+
+const MAX_BACKOFF = 30_000
+
+// Exponential backoff with full jitter, so clients that failed together don't
+// all come back at the same moment. A Retry-After from the server wins.
+export const backoffDelay = (error: unknown, attempt: number, baseDelay: number) => {
+    if (error instanceof RateLimitError && error.retryAfter !== null) {
+        return Math.min(error.retryAfter, MAX_BACKOFF)
+    }
+
+    return Math.random() * Math.min(baseDelay * 2 ** attempt, MAX_BACKOFF)
+}
+
+const MESSAGE_KEYS: Record<ErrorKind, TranslationKey> = {
+    'network': 'errors.network',
+    'unauthorized': 'errors.unauthorized',
+    'invalid-credentials': 'errors.invalidCredentials',
+    'forbidden': 'errors.forbidden',
+    'unverified': 'errors.unverified',
+    'not-found': 'errors.notFound',
+    'rate-limited': 'errors.rateLimited',
+    'server': 'errors.server',
+    'validation': 'errors.validation',
+}
+
+// What to tell the user; unknown errors get a generic message
+export const errorMessageKey = (error: unknown): TranslationKey =>
+    error instanceof AppError ? MESSAGE_KEYS[error.kind] : 'errors.unknown'
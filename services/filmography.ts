@@ -0,0 +1,65 @@
+export type FilmographySort = 'year' | 'popularity'
+
+export interface FilmographyEntry {
+    movie: Movie
+    creditId: string
+    // Character name for acting credits, job titles for crew credits
+    role: string
+}
+
+const year = (movie: Movie) => parseInt(movie.release_date?.split('-')[0] || '', 10)
+
+// Unreleased and undated titles go first, like on TMDB. Infinity - Infinity
+// is NaN, so two undated titles are compared as equal explicitly.
+const compareYears = (a: Movie, b: Movie) => {
+    const yearA = year(a) || Infinity
+    const yearB = year(b) || Infinity
+
+    if (yearA === yearB) return 0
+    return yearB - yearA
+}
+
+const compareBy: Record<FilmographySort, (a: FilmographyEntry, b: FilmographyEntry) => number> = {
+    year: (a, b) => compareYears(a.movie, b.movie),
+    popularity: (a, b) => b.movie.popularity - a.movie.popularity,
+}
+
+export const getActingCredits = (person: PersonDetails): FilmographyEntry[] =>
+    (person.movie_credits?.cast ?? []).map((credit) => ({
+        movie: credit,
+        creditId: credit.credit_id,
+        role: credit.character,
+    }))
+
+// A director who also wrote the film has two crew credits for it; show it once
+export const getCrewCredits = (person: PersonDetails): FilmographyEntry[] => {
+    const byMovie = new Map<number, FilmographyEntry>()
+
+    for (const credit of person.movie_credits?.crew ?? []) {
+        const existing = byMovie.get(credit.id)
+
+        if (existing) {
+            if (!existing.role.split(', ').includes(credit.job)) existing.role += `, ${credit.job}`
+        } else {
+            byMovie.set(credit.id, { movie: credit, creditId: credit.credit_id, role: credit.job })
+        }
+    }
+
+    return [...byMovie.values()]
+}
+
+export const sortFilmography = (entries: FilmographyEntry[], sort: FilmographySort) =>
+    [...entries].sort(compareBy[sort])
+
+// The person's best-known films in the department they're known for
+export const getKnownFor = (person: PersonDetails, limit = 10): Movie[] => {
+    const entries = person.known_for_department === 'Acting'
+        ? getActingCredits(person)
+        : getCrewCredits(person)
+
+    return [...entries]
+        .map((entry) => entry.movie)
+        .filter((movie) => movie.poster_path)
+        .sort((a, b) => b.vote_count - a.vote_count)
+        .slice(0, limit)
+}
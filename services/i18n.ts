@@ -0,0 +1,36 @@
+import { FALLBACK_TRANSLATIONS, TranslationKey, translations } from '../constants/translations'
+import { useCallback } from 'react'
+import { errorMessageKey } from './errors'
+import { languageOf } from './locale'
+import { usePreferences } from './PreferencesContext'
+
+export type TranslationVars = Record<string, string | number>
+
+// Looks the key up in the locale's language, falling back to English for
+// anything not translated yet, then fills in `{name}` placeholders
+export const translate = (locale: string, key: TranslationKey, vars: TranslationVars = {}) => {
+    const template = translations[languageOf(locale)]?.[key] ?? FALLBACK_TRANSLATIONS[key]
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name) =>
+        name in vars ? String(vars[name]) : placeholder
+    )
+}
+
+// A message for the user that depends on what kind of failure it was
+export const describeError = (locale: string, error: unknown) =>
+    translate(locale, errorMessageKey(error), {
+        message: error instanceof Error && error.message ? error.message : 'unknown error'
+    })
+
+export const useTranslation = () => {
+    const { locale } = usePreferences()
+
+    const t = useCallback(
+        (key: TranslationKey, vars?: TranslationVars) => translate(locale, key, vars),
+        [locale]
+    )
+
+    const describe = useCallback((error: unknown) => describeError(locale, error), [locale])
+
+    return { t, describeError: describe, locale }
+}
@@ -0,0 +1,12 @@
+import { Models } from 'react-native-appwrite'
+import { User } from '../types/auth'
+
+// An account can be signed in to with its password, if it has one, or with
+// any linked OAuth provider. Email codes aren't counted: for OAuth accounts the
+// address came from the provider and may not be one the user still reads.
+export const signInMethodCount = (user: User, identities: Models.Identity[]) =>
+    identities.length + (user.passwordUpdate ? 1 : 0)
+
+// Unlinking the last way in would leave an account nobody can open
+export const canUnlinkIdentity = (user: User, identities: Models.Identity[]) =>
+    signInMethodCount(user, identities) > 1
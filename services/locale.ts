@@ -0,0 +1,39 @@
+export const DEFAULT_LOCALE = 'en-US'
+
+// Locales offered in the picker. TMDB content follows any of them; the UI falls
+// back to English where there is no translation yet.
+export const LOCALE_OPTIONS: { code: string, label: string }[] = [
+    { code: 'en-US', label: 'English (US)' },
+    { code: 'en-GB', label: 'English (UK)' },
+    { code: 'es-ES', label: 'Español (España)' },
+    { code: 'es-MX', label: 'Español (México)' },
+    { code: 'fr-FR', label: 'Français' },
+    { code: 'de-DE', label: 'Deutsch' },
+    { code: 'it-IT', label: 'Italiano' },
+    { code: 'pt-BR', label: 'Português (Brasil)' },
+    { code: 'ja-JP', label: '日本語' },
+]
+
+export const getDeviceLocale = () => {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().locale || DEFAULT_LOCALE
+    } catch {
+        return DEFAULT_LOCALE
+    }
+}
+
+export const languageOf = (locale: string) => locale.split('-')[0] || 'en'
+
+export const regionOf = (locale: string) =>
+    locale.split('-').find((part) => /^[A-Z]{2}$/.test(part))
+
+export const formatDate = (locale: string, date: string | null | undefined, options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }) => {
+    if (!date) return null
+
+    const parsed = new Date(date)
+    return Number.isNaN(parsed.getTime()) ? null : parsed.toLocaleDateString(locale, options)
+}
+
+// TMDB reports budgets and revenue in US dollars whatever the language
+export const formatCurrency = (locale: string, amount: number, currency: string = 'USD') =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 1 }).format(amount)
@@ -0,0 +1,107 @@
+// Console logging with levels and per-module names. Everything passed in is
+// scrubbed first, so tokens, secrets and email addresses never reach the
+// device log, Metro or a crash reporter reading it.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+const LEVELS: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+    silent: 100,
+}
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+    typeof value === 'string' && value in LEVELS
+
+// EXPO_PUBLIC_ variables are inlined when the bundle is built, so release
+// builds are quiet unless they were built with a lower level on purpose
+const configuredLevel = process.env.EXPO_PUBLIC_LOG_LEVEL
+
+export const MIN_LEVEL: LogLevel = isLogLevel(configuredLevel)
+    ? configuredLevel
+    : __DEV__ ? 'debug' : 'warn'
+
+const REDACTED = '[redacted]'
+
+// Keys whose values are never worth logging, matched anywhere in the key name
+const SECRET_KEY = /token|secret|password|authorization|api[-_]?key|cookie|session[-_]?id|jwt/i
+
+// Personal details
+const PERSONAL_KEY = /email|avatar|picture|phone|providerUid/i
+
+// OAuth and recovery links carry credentials in their query string
+const SECRET_PARAMS = ['secret', 'userId', 'token', 'code', 'state', 'access_token', 'id_token', 'refresh_token', 'key']
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+const BEARER = /Bearer\s+[\w.~+/=-]+/gi
+const JWT = /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g
+const SECRET_PARAM = new RegExp(`([?&#](?:${SECRET_PARAMS.join('|')})=)[^&#\\s]*`, 'gi')
+
+const MAX_DEPTH = 5
+
+const redactString = (value: string) => value
+    .replace(BEARER, `Bearer ${REDACTED}`)
+    .replace(JWT, REDACTED)
+    .replace(SECRET_PARAM, `$1${REDACTED}`)
+    .replace(EMAIL, '[email]')
+
+export const redact = (value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown => {
+    if (typeof value === 'string') return redactString(value)
+    if (value === null || typeof value !== 'object') return value
+
+    if (seen.has(value)) return '[circular]'
+    if (depth >= MAX_DEPTH) return '[truncated]'
+    seen.add(value)
+
+    // Error fields aren't enumerable, so copy out the useful ones
+    if (value instanceof Error) {
+        const { code, type } = value as Error & { code?: unknown, type?: unknown }
+        return redact({ name: value.name, message: value.message, code, type }, depth, seen)
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((item) => redact(item, depth + 1, seen))
+    }
+
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+        // Flags like `hasAccessToken` say nothing about the secret itself
+        if (item === null || item === undefined || item === '' || typeof item === 'boolean') return [key, item]
+        if (SECRET_KEY.test(key) || PERSONAL_KEY.test(key)) return [key, REDACTED]
+
+        return [key, redact(item, depth + 1, seen)]
+    }))
+}
+
+export interface Logger {
+    debug: (message: string, ...details: unknown[]) => void
+    info: (message: string, ...details: unknown[]) => void
+    warn: (message: string, ...details: unknown[]) => void
+    error: (message: string, ...details: unknown[]) => void
+}
+
+const write = (level: Exclude<LogLevel, 'silent'>, name: string, message: string, details: unknown[]) => {
+    if (LEVELS[level] < LEVELS[MIN_LEVEL]) return
+
+    const line = `[${name}] ${redactString(message)}`
+    const scrubbed = details.map((detail) => redact(detail))
+
+    switch (level) {
+        case 'error':
+            console.error(line, ...scrubbed)
+            break
+        case 'warn':
+            console.warn(line, ...scrubbed)
+            break
+        default:
+            console.log(line, ...scrubbed)
+    }
+}
+
+export const createLogger = (name: string): Logger => ({
+    debug: (message, ...details) => write('debug', name, message, details),
+    info: (message, ...details) => write('info', name, message, details),
+    warn: (message, ...details) => write('warn', name, message, details),
+    error: (message, ...details) => write('error', name, message, details),
+})
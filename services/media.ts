@@ -0,0 +1,26 @@
+import { TranslationKey } from '../constants/translations'
+
+export const MEDIA_TYPES: { value: MediaType, labelKey: TranslationKey }[] = [
+    { value: 'movie', labelKey: 'common.movies' },
+    { value: 'tv', labelKey: 'common.tvShows' },
+]
+
+export const isTvShow = (item: Movie | TvShow): item is TvShow => 'first_air_date' in item
+
+export const parseMediaType = (value: string | string[] | undefined): MediaType =>
+    (Array.isArray(value) ? value[0] : value) === 'tv' ? 'tv' : 'movie'
+
+// Watchlist and trending documents predate TV support, so a missing type means movie
+export const mediaTypeOf = (entry: { media_type?: MediaType }): MediaType => entry.media_type ?? 'movie'
+
+export const mediaHref = (mediaType: MediaType, id: number) =>
+    mediaType === 'tv' ? `/tv/${id}` as const : `/movies/${id}` as const
+
+export const tvShowToSaveable = (show: Pick<TvShow, 'id' | 'name' | 'poster_path' | 'vote_average' | 'first_air_date'>): SaveableMovie => ({
+    id: show.id,
+    media_type: 'tv',
+    title: show.name,
+    poster_path: show.poster_path,
+    vote_average: show.vote_average,
+    release_date: show.first_air_date,
+})
@@ -0,0 +1,213 @@
+import { TranslationKey } from '../constants/translations'
+import { TranslationVars } from './i18n'
+
+export const DEFAULT_FILTERS: MovieFilters = {
+    genreIds: [],
+    sortBy: 'popularity.desc'
+}
+
+export const SORT_OPTIONS: { value: MovieSortOption, labelKey: TranslationKey }[] = [
+    { value: 'popularity.desc', labelKey: 'filters.sortPopular' },
+    { value: 'vote_average.desc', labelKey: 'filters.sortRating' },
+    { value: 'primary_release_date.desc', labelKey: 'filters.sortNewest' },
+    { value: 'primary_release_date.asc', labelKey: 'filters.sortOldest' },
+]
+
+export const LANGUAGE_OPTIONS: { code: string, labelKey: TranslationKey }[] = [
+    { code: 'en', labelKey: 'languages.en' },
+    { code: 'fr', labelKey: 'languages.fr' },
+    { code: 'es', labelKey: 'languages.es' },
+    { code: 'de', labelKey: 'languages.de' },
+    { code: 'it', labelKey: 'languages.it' },
+    { code: 'ja', labelKey: 'languages.ja' },
+    { code: 'ko', labelKey: 'languages.ko' },
+    { code: 'hi', labelKey: 'languages.hi' },
+    { code: 'zh', labelKey: 'languages.zh' },
+    { code: 'pt', labelKey: 'languages.pt' },
+]
+
+export const VOTE_AVERAGE_OPTIONS = [5, 6, 7, 8]
+export const VOTE_COUNT_OPTIONS = [100, 500, 1000, 5000]
+
+export const hasActiveFilters = (filters: MovieFilters) =>
+    filters.genreIds.length > 0 ||
+    filters.yearFrom !== undefined ||
+    filters.yearTo !== undefined ||
+    filters.minVoteAverage !== undefined ||
+    filters.minVoteCount !== undefined ||
+    filters.language !== undefined ||
+    filters.myServices !== undefined ||
+    filters.sortBy !== DEFAULT_FILTERS.sortBy
+
+// Query string parameters for TMDB's /discover/movie endpoint
+export const toDiscoverParams = (filters: MovieFilters): Record<string, string> => {
+    const params: Record<string, string> = { sort_by: filters.sortBy }
+
+    if (filters.genreIds.length > 0) params.with_genres = filters.genreIds.join(',')
+    if (filters.yearFrom !== undefined) params['primary_release_date.gte'] = `${filters.yearFrom}-01-01`
+    if (filters.yearTo !== undefined) params['primary_release_date.lte'] = `${filters.yearTo}-12-31`
+    if (filters.minVoteAverage !== undefined) params['vote_average.gte'] = String(filters.minVoteAverage)
+    if (filters.minVoteCount !== undefined) params['vote_count.gte'] = String(filters.minVoteCount)
+    if (filters.language) params.with_original_language = filters.language
+    if (filters.myServices) {
+        params.watch_region = filters.myServices.region
+        params.with_watch_providers = filters.myServices.providerIds.join('|')
+        params.with_watch_monetization_types = 'flatrate'
+    }
+
+    return params
+}
+
+const releaseYear = (movie: Movie) => parseInt(movie.release_date?.split('-')[0] || '', 10)
+
+const compareBy: Record<MovieSortOption, (a: Movie, b: Movie) => number> = {
+    'popularity.desc': (a, b) => b.popularity - a.popularity,
+    'vote_average.desc': (a, b) => b.vote_average - a.vote_average,
+    'primary_release_date.desc': (a, b) => (b.release_date || '').localeCompare(a.release_date || ''),
+    'primary_release_date.asc': (a, b) => (a.release_date || '').localeCompare(b.release_date || ''),
+}
+
+// /search/movie ignores discover parameters, so text searches are filtered here.
+// Sorting waits for sortMovies, since a sort only means something across
+// every page loaded so far.
+export const applyFilters = (movies: Movie[], filters: MovieFilters): Movie[] =>
+    movies.filter((movie) => {
+        const year = releaseYear(movie)
+
+        if (filters.genreIds.length > 0 && !filters.genreIds.every((id) => movie.genre_ids?.includes(id))) return false
+        if (filters.yearFrom !== undefined && !(year >= filters.yearFrom)) return false
+        if (filters.yearTo !== undefined && !(year <= filters.yearTo)) return false
+        if (filters.minVoteAverage !== undefined && movie.vote_average < filters.minVoteAverage) return false
+        if (filters.minVoteCount !== undefined && movie.vote_count < filters.minVoteCount) return false
+        if (filters.language && movie.original_language !== filters.language) return false
+
+        return true
+    })
+
+// Keeps TMDB's relevance order unless the user explicitly picked a sort
+export const sortMovies = (movies: Movie[], sortBy: MovieSortOption): Movie[] =>
+    sortBy === DEFAULT_FILTERS.sortBy
+        ? movies
+        : [...movies].sort(compareBy[sortBy])
+
+const toNumber = (value: string | string[] | undefined) => {
+    const raw = Array.isArray(value) ? value[0] : value
+    if (!raw) return undefined
+
+    const parsed = Number(raw)
+    return Number.isFinite(parsed) ? parsed : undefined
+}
+
+const toString = (value: string | string[] | undefined) =>
+    (Array.isArray(value) ? value[0] : value) || undefined
+
+// Route params use short keys so shared links stay readable
+export const filtersToParams = (filters: MovieFilters): Record<string, string | undefined> => ({
+    genres: filters.genreIds.length > 0 ? filters.genreIds.join(',') : undefined,
+    from: filters.yearFrom?.toString(),
+    to: filters.yearTo?.toString(),
+    rating: filters.minVoteAverage?.toString(),
+    votes: filters.minVoteCount?.toString(),
+    lang: filters.language,
+    services: filters.myServices ? '1' : undefined,
+    sort: filters.sortBy !== DEFAULT_FILTERS.sortBy ? filters.sortBy : undefined,
+})
+
+// The route only records that "my services" is on; which services those are
+// comes from the user's preferences, and without any the filter is dropped
+export const filtersFromParams = (
+    params: Record<string, string | string[] | undefined>,
+    myServices?: MyServices
+): MovieFilters => {
+    const sort = toString(params.sort)
+
+    return {
+        genreIds: (toString(params.genres) ?? '')
+            .split(',')
+            .map(Number)
+            .filter((id) => Number.isInteger(id) && id > 0),
+        yearFrom: toNumber(params.from),
+        yearTo: toNumber(params.to),
+        minVoteAverage: toNumber(params.rating),
+        minVoteCount: toNumber(params.votes),
+        language: toString(params.lang),
+        myServices: toString(params.services) === '1' && myServices?.providerIds.length ? myServices : undefined,
+        sortBy: SORT_OPTIONS.some((option) => option.value === sort)
+            ? sort as MovieSortOption
+            : DEFAULT_FILTERS.sortBy,
+    }
+}
+
+export interface ActiveFilterChip {
+    key: string
+    label: string
+    remove: (filters: MovieFilters) => MovieFilters
+}
+
+// Chip labels go through `t` so they follow the user's language
+export const describeActiveFilters = (
+    filters: MovieFilters,
+    t: (key: TranslationKey, vars?: TranslationVars) => string,
+    genres: Genre[] = []
+): ActiveFilterChip[] => {
+    const chips: ActiveFilterChip[] = filters.genreIds.map((id) => ({
+        key: `genre-${id}`,
+        label: genres.find((genre) => genre.id === id)?.name ?? t('filters.genre', { id }),
+        remove: (current) => ({ ...current, genreIds: current.genreIds.filter((genreId) => genreId !== id) }),
+    }))
+
+    if (filters.yearFrom !== undefined || filters.yearTo !== undefined) {
+        chips.push({
+            key: 'years',
+            label: t('filters.years', {
+                from: filters.yearFrom ?? t('filters.any'),
+                to: filters.yearTo ?? t('filters.now'),
+            }),
+            remove: (current) => ({ ...current, yearFrom: undefined, yearTo: undefined }),
+        })
+    }
+
+    if (filters.minVoteAverage !== undefined) {
+        chips.push({
+            key: 'rating',
+            label: t('filters.rating', { value: filters.minVoteAverage }),
+            remove: (current) => ({ ...current, minVoteAverage: undefined }),
+        })
+    }
+
+    if (filters.minVoteCount !== undefined) {
+        chips.push({
+            key: 'votes',
+            label: t('filters.votes', { count: filters.minVoteCount }),
+            remove: (current) => ({ ...current, minVoteCount: undefined }),
+        })
+    }
+
+    if (filters.language) {
+        const language = LANGUAGE_OPTIONS.find((option) => option.code === filters.language)
+        chips.push({
+            key: 'language',
+            label: language ? t(language.labelKey) : filters.language,
+            remove: (current) => ({ ...current, language: undefined }),
+        })
+    }
+
+    if (filters.myServices) {
+        chips.push({
+            key: 'services',
+            label: t('profile.myServices'),
+            remove: (current) => ({ ...current, myServices: undefined }),
+        })
+    }
+
+    if (filters.sortBy !== DEFAULT_FILTERS.sortBy) {
+        const sort = SORT_OPTIONS.find((option) => option.value === filters.sortBy)
+        chips.push({
+            key: 'sort',
+            label: sort ? t(sort.labelKey) : filters.sortBy,
+            remove: (current) => ({ ...current, sortBy: DEFAULT_FILTERS.sortBy }),
+        })
+    }
+
+    return chips
+}
@@ -0,0 +1,30 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo'
+
+let online = true
+const reconnectListeners = new Set<() => void>()
+
+// `isInternetReachable` is null until NetInfo has checked, so only an explicit
+// false counts as offline
+const isStateOnline = (state: NetInfoState) =>
+    state.isConnected !== false && state.isInternetReachable !== false
+
+NetInfo.addEventListener((state) => {
+    const next = isStateOnline(state)
+    if (next === online) return
+
+    const reconnected = !online && next
+    online = next
+
+    if (reconnected) {
+        reconnectListeners.forEach((listener) => listener())
+    }
+})
+
+export const isOnline = () => online
+
+export const onReconnect = (listener: () => void) => {
+    reconnectListeners.add(listener)
+    return () => {
+        reconnectListeners.delete(listener)
+    }
+}
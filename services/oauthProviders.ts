@@ -0,0 +1,96 @@
+import { ImageSourcePropType } from 'react-native'
+import { OAuthProvider } from 'react-native-appwrite'
+import { UserProfile } from '../types/auth'
+import { createLogger } from './logger'
+
+const log = createLogger('oauthProviders')
+
+export interface OAuthBranding {
+    label: string
+    icon?: ImageSourcePropType
+    backgroundColor: string
+    textColor: string
+    borderColor?: string
+}
+
+export interface OAuthProviderConfig {
+    // Appwrite's provider id; also what sessions and identities report
+    id: OAuthProvider
+    branding: OAuthBranding
+    // Reads the provider's own profile with the access token Appwrite holds
+    // for it, mapped to our shape. Fields the provider doesn't share are left out.
+    fetchProfile: (accessToken: string) => Promise<Partial<UserProfile>>
+}
+
+const getJson = async (url: string, accessToken: string) => {
+    const response = await fetch(url, {
+        headers: { Authorization: `Bearer ${accessToken}` }
+    })
+    if (!response.ok) throw new Error(`Profile request failed with ${response.status}`)
+    return response.json()
+}
+
+const google: OAuthProviderConfig = {
+    id: OAuthProvider.Google,
+    branding: {
+        label: 'Google',
+        icon: require('../assets/images/google2.png'),
+        backgroundColor: '#FFFFFF',
+        textColor: '#1F2937',
+        borderColor: '#9CA3AF',
+    },
+    fetchProfile: async (accessToken) => {
+        const profile = await getJson('https://www.googleapis.com/oauth2/v2/userinfo', accessToken)
+        return { name: profile.name, email: profile.email, avatar: profile.picture }
+    },
+}
+
+const github: OAuthProviderConfig = {
+    id: OAuthProvider.Github,
+    branding: {
+        label: 'GitHub',
+        backgroundColor: '#24292F',
+        textColor: '#FFFFFF',
+    },
+    fetchProfile: async (accessToken) => {
+        const profile = await getJson('https://api.github.com/user', accessToken)
+        // `name` is optional on GitHub; everyone has a login
+        return { name: profile.name || profile.login, email: profile.email ?? undefined, avatar: profile.avatar_url }
+    },
+}
+
+const discord: OAuthProviderConfig = {
+    id: OAuthProvider.Discord,
+    branding: {
+        label: 'Discord',
+        backgroundColor: '#5865F2',
+        textColor: '#FFFFFF',
+    },
+    fetchProfile: async (accessToken) => {
+        const profile = await getJson('https://discord.com/api/users/@me', accessToken)
+        // Discord sends an avatar hash; no hash means the default avatar
+        const avatar = profile.avatar
+            ? `https://cdn.discordapp.com/avatars/${profile.id}/${profile.avatar}.png`
+            : undefined
+        return { name: profile.global_name || profile.username, email: profile.email ?? undefined, avatar }
+    },
+}
+
+// In the order the sign-in buttons are shown. Each provider also has to be
+// enabled in the Appwrite console.
+export const OAUTH_PROVIDERS: OAuthProviderConfig[] = [google, github, discord]
+
+export const findOAuthProvider = (provider: string | undefined) =>
+    OAUTH_PROVIDERS.find(({ id }) => id === provider?.toLowerCase())
+
+// The provider's profile, or null when it couldn't be read; callers fall back
+// to what Appwrite has
+export const fetchProviderProfile = async (provider: OAuthProviderConfig, accessToken: string) => {
+    try {
+        log.debug("Fetching provider profile", { provider: provider.id })
+        return await provider.fetchProfile(accessToken)
+    } catch (error) {
+        log.error("Error fetching provider profile", error)
+        return null
+    }
+}
@@ -0,0 +1,118 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+// On-device copies of API responses, used when the network is unavailable.
+// Entries expire after their TTL, and the oldest ones are evicted once the
+// store grows past MAX_BYTES.
+
+const STORAGE_PREFIX = 'offline:'
+const INDEX_KEY = `${STORAGE_PREFIX}__index`
+
+export const MAX_BYTES = 2 * 1024 * 1024
+export const MAX_ENTRIES = 200
+
+const DAY = 24 * 60 * 60 * 1000
+
+export const OFFLINE_TTL = {
+    movieLists: DAY,
+    movieDetails: 7 * DAY,
+    trending: DAY,
+}
+
+interface IndexEntry {
+    key: string
+    bytes: number
+    savedAt: number
+    expiresAt: number
+}
+
+export interface OfflineCopy<T> {
+    data: T
+    savedAt: number
+}
+
+// AsyncStorage has no transactions, so index updates are queued one after another
+let queue: Promise<unknown> = Promise.resolve()
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const next = queue.then(task, task)
+    queue = next.catch(() => undefined)
+    return next
+}
+
+const storageKey = (key: string) => `${STORAGE_PREFIX}${key}`
+
+const readIndex = async (): Promise<IndexEntry[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(INDEX_KEY)
+        return raw ? JSON.parse(raw) : []
+    } catch {
+        return []
+    }
+}
+
+const writeIndex = (index: IndexEntry[]) => AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index))
+
+// Drops expired entries, then the least recently saved ones until the store fits
+const prune = (index: IndexEntry[], now: number) => {
+    const kept = index
+        .filter((entry) => entry.expiresAt > now)
+        .sort((a, b) => b.savedAt - a.savedAt)
+
+    let totalBytes = 0
+    const fitting: IndexEntry[] = []
+
+    for (const entry of kept) {
+        if (fitting.length >= MAX_ENTRIES || totalBytes + entry.bytes > MAX_BYTES) continue
+
+        totalBytes += entry.bytes
+        fitting.push(entry)
+    }
+
+    const fittingKeys = new Set(fitting.map((entry) => entry.key))
+    const evicted = index.filter((entry) => !fittingKeys.has(entry.key)).map((entry) => entry.key)
+
+    return { fitting, evicted }
+}
+
+export const saveOffline = (key: string, data: unknown, ttl: number) => enqueue(async () => {
+    const now = Date.now()
+    const payload = JSON.stringify({ data, savedAt: now })
+
+    // A single response bigger than the whole budget is not worth keeping
+    if (payload.length > MAX_BYTES) return
+
+    const index = (await readIndex()).filter((entry) => entry.key !== key)
+    index.push({ key, bytes: payload.length, savedAt: now, expiresAt: now + ttl })
+
+    const { fitting, evicted } = prune(index, now)
+    if (!fitting.some((entry) => entry.key === key)) return
+
+    await AsyncStorage.setItem(storageKey(key), payload)
+    if (evicted.length > 0) await AsyncStorage.multiRemove(evicted.map(storageKey))
+    await writeIndex(fitting)
+})
+
+export const readOffline = <T>(key: string): Promise<OfflineCopy<T> | null> => enqueue(async () => {
+    const index = await readIndex()
+    const entry = index.find((item) => item.key === key)
+
+    if (!entry) return null
+
+    if (entry.expiresAt <= Date.now()) {
+        await AsyncStorage.removeItem(storageKey(key))
+        await writeIndex(index.filter((item) => item.key !== key))
+        return null
+    }
+
+    try {
+        const raw = await AsyncStorage.getItem(storageKey(key))
+        return raw ? JSON.parse(raw) as OfflineCopy<T> : null
+    } catch {
+        return null
+    }
+})
+
+export const clearOffline = () => enqueue(async () => {
+    const index = await readIndex()
+    await AsyncStorage.multiRemove([...index.map((entry) => storageKey(entry.key)), INDEX_KEY])
+})
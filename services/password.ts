@@ -0,0 +1,20 @@
+import { TranslationKey } from '../constants/translations'
+
+export interface PasswordRule {
+    id: string
+    labelKey: TranslationKey
+    test: (password: string) => boolean
+}
+
+// Appwrite itself only insists on 8 characters; the rest keep the obvious
+// guesses out
+export const PASSWORD_RULES: PasswordRule[] = [
+    { id: 'length', labelKey: 'password.length', test: (password) => password.length >= 8 },
+    { id: 'letter', labelKey: 'password.letter', test: (password) => /[a-z]/i.test(password) },
+    { id: 'number', labelKey: 'password.number', test: (password) => /\d/.test(password) },
+    { id: 'mixedCase', labelKey: 'password.mixedCase', test: (password) => /[a-z]/.test(password) && /[A-Z]/.test(password) },
+]
+
+export const unmetPasswordRules = (password: string) =>
+    PASSWORD_RULES.filter((rule) => !rule.test(password))
+
@@ -0,0 +1,239 @@
+// A small keyed cache shared by every screen. Identical in-flight requests are
+// merged, finished results are kept so screens can render them straight away
+// while a fresh copy is fetched, and a request is only aborted once every
+// caller waiting on it has gone away. Queries fetched with `persist` also keep
+// an on-device copy that is served when the network is unavailable.
+
+import { isAbortError } from './errors'
+import { isOnline, onReconnect } from './network'
+import { readOffline, saveOffline } from './offlineStore'
+import { abortError, withRetry } from './retry'
+
+export type QueryKey = readonly unknown[]
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>
+
+export interface FetchQueryOptions {
+    retry?: number
+    retryDelay?: number
+    signal?: AbortSignal
+    // Time to live of the on-device copy, in milliseconds
+    persist?: number
+    // Settle for cached data younger than this (ms) instead of fetching
+    staleTime?: number
+}
+
+interface InFlightRequest<T> {
+    promise: Promise<T>
+    controller: AbortController
+    consumers: number
+}
+
+interface CacheEntry<T> {
+    data?: T
+    error: Error | null
+    updatedAt: number
+    invalidated: boolean
+    isOfflineCopy: boolean
+    request?: InFlightRequest<T>
+    version: number
+    listeners: Set<() => void>
+}
+
+export const DEFAULT_RETRY = 2
+export const DEFAULT_RETRY_DELAY = 500
+
+const cache = new Map<string, CacheEntry<unknown>>()
+
+export const hashKey = (key: QueryKey) => JSON.stringify(key)
+
+const getOrCreateEntry = <T>(hash: string): CacheEntry<T> => {
+    let entry = cache.get(hash) as CacheEntry<T> | undefined
+
+    if (!entry) {
+        entry = { error: null, updatedAt: 0, invalidated: false, isOfflineCopy: false, version: 0, listeners: new Set() }
+        cache.set(hash, entry as CacheEntry<unknown>)
+    }
+
+    return entry
+}
+
+const notify = (entry: CacheEntry<unknown>) => {
+    entry.version += 1
+    entry.listeners.forEach((listener) => listener())
+}
+
+interface QueryResult<T> {
+    data: T
+    updatedAt: number
+    isOfflineCopy: boolean
+}
+
+const runQuery = async <T>(hash: string, fetcher: QueryFetcher<T>, signal: AbortSignal, options: FetchQueryOptions): Promise<QueryResult<T>> => {
+    const { retry = DEFAULT_RETRY, retryDelay = DEFAULT_RETRY_DELAY, persist } = options
+
+    if (persist === undefined) {
+        return { data: await withRetry(fetcher, { retry, retryDelay, signal }), updatedAt: Date.now(), isOfflineCopy: false }
+    }
+
+    // A copy also stands in when TMDB fails while we're online, but it's only
+    // labelled offline when the device really is
+    const fromDevice = async () => {
+        const copy = await readOffline<T>(hash)
+        return copy ? { data: copy.data, updatedAt: copy.savedAt, isOfflineCopy: !isOnline() } : null
+    }
+
+    // No point waiting on retries we know will fail
+    if (!isOnline()) {
+        const copy = await fromDevice()
+        if (copy) return copy
+    }
+
+    try {
+        const data = await withRetry(fetcher, { retry, retryDelay, signal })
+        saveOffline(hash, data, persist).catch(() => undefined)
+        return { data, updatedAt: Date.now(), isOfflineCopy: false }
+    } catch (error) {
+        if (signal.aborted || isAbortError(error)) throw error
+
+        const copy = await fromDevice()
+        if (!copy) throw error
+        return copy
+    }
+}
+
+export const getQueryEntry = <T>(key: QueryKey) =>
+    cache.get(hashKey(key)) as Readonly<CacheEntry<T>> | undefined
+
+export const getQueryData = <T>(key: QueryKey) => getQueryEntry<T>(key)?.data
+
+export const isQueryStale = (key: QueryKey, staleTime: number) => {
+    const entry = getQueryEntry(key)
+    if (!entry || entry.updatedAt === 0) return true
+
+    return entry.invalidated || Date.now() - entry.updatedAt > staleTime
+}
+
+export const subscribeToQuery = (key: QueryKey, listener: () => void) => {
+    const entry = getOrCreateEntry(hashKey(key))
+    entry.listeners.add(listener)
+
+    return () => {
+        entry.listeners.delete(listener)
+    }
+}
+
+export const fetchQuery = <T>(key: QueryKey, fetcher: QueryFetcher<T>, options: FetchQueryOptions = {}): Promise<T> => {
+    const { signal } = options
+    const hash = hashKey(key)
+    const entry = getOrCreateEntry<T>(hash)
+
+    if (signal?.aborted) return Promise.reject(abortError())
+
+    if (options.staleTime !== undefined && entry.data !== undefined && !isQueryStale(key, options.staleTime)) {
+        return Promise.resolve(entry.data)
+    }
+
+    let request = entry.request
+
+    if (!request) {
+        const controller = new AbortController()
+        const promise = runQuery(hash, fetcher, controller.signal, options)
+            .then((result) => {
+                entry.data = result.data
+                entry.error = null
+                entry.updatedAt = result.updatedAt
+                entry.invalidated = false
+                entry.isOfflineCopy = result.isOfflineCopy
+                return result.data
+            })
+            .catch((error) => {
+                if (!isAbortError(error)) {
+                    entry.error = error instanceof Error ? error : new Error('An error occurred')
+                }
+                throw error
+            })
+            .finally(() => {
+                if (entry.request === request) entry.request = undefined
+                notify(entry as CacheEntry<unknown>)
+            })
+
+        request = { promise, controller, consumers: 0 }
+        entry.request = request
+        notify(entry as CacheEntry<unknown>)
+    }
+
+    const current = request
+    current.consumers += 1
+
+    if (!signal) return current.promise
+
+    // Each caller can walk away on its own; the shared request is only
+    // cancelled when nobody is left waiting for it
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            current.consumers -= 1
+            if (current.consumers <= 0) {
+                // Detach first so a caller arriving now starts a fresh request
+                if (entry.request === current) entry.request = undefined
+                current.controller.abort()
+            }
+            reject(abortError())
+        }
+
+        signal.addEventListener('abort', onAbort, { once: true })
+        current.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+    })
+}
+
+export const setQueryData = <T>(key: QueryKey, updater: T | ((current: T | undefined) => T)) => {
+    const entry = getOrCreateEntry<T>(hashKey(key))
+
+    entry.data = typeof updater === 'function'
+        ? (updater as (current: T | undefined) => T)(entry.data)
+        : updater
+    entry.error = null
+    entry.updatedAt = Date.now()
+    entry.invalidated = false
+    notify(entry as CacheEntry<unknown>)
+}
+
+const matchesPrefix = (hash: string, prefix: QueryKey) => {
+    if (prefix.length === 0) return true
+
+    // '["movie",1' must not match '["movie",12]', so compare whole elements
+    const hashedPrefix = hashKey(prefix).slice(0, -1)
+    return hash === `${hashedPrefix}]` || hash.startsWith(`${hashedPrefix},`)
+}
+
+// Marks every query whose key starts with `prefix` as stale. Mounted screens
+// refetch straight away; everything else refetches the next time it is used.
+export const invalidateQueries = (prefix: QueryKey = []) => {
+    cache.forEach((entry, hash) => {
+        if (!matchesPrefix(hash, prefix)) return
+
+        entry.invalidated = true
+        notify(entry)
+    })
+}
+
+export const removeQueries = (prefix: QueryKey = []) => {
+    cache.forEach((entry, hash) => {
+        if (!matchesPrefix(hash, prefix)) return
+
+        entry.request?.controller.abort()
+        cache.delete(hash)
+        notify(entry)
+    })
+}
+
+// Anything that was served from the device while offline is refreshed as soon
+// as the connection comes back
+onReconnect(() => {
+    cache.forEach((entry) => {
+        if (!entry.isOfflineCopy) return
+
+        entry.invalidated = true
+        notify(entry)
+    })
+})
@@ -0,0 +1,29 @@
+
+// Every cache key in one place, so invalidating a family of queries can't
+// miss one that was spelled differently. TMDB responses come back in the
+// user's locale, so their keys end with it: a copy saved for offline use in
+// one language is never served after switching to another.
+export const queryKeys = {
+    movies: (query: string, filters: MovieFilters, locale: string) => ['movies', query, filters, locale] as const,
+    movieDetails: (movieId: string, locale: string) => ['movie', movieId, locale] as const,
+    similarMovies: (movieId: string, locale: string) => ['movie', movieId, 'similar', locale] as const,
+    recommendedMovies: (movieId: string, locale: string) => ['movie', movieId, 'recommendations', locale] as const,
+    movieVideos: (movieId: string, language: string) => ['movie', movieId, 'videos', language] as const,
+    watchProviders: (movieId: string, locale: string) => ['movie', movieId, 'providers', locale] as const,
+    watchRegions: (locale: string) => ['watch-regions', locale] as const,
+    providerCatalog: (region: string, locale: string) => ['watch-providers', region, locale] as const,
+    reviews: (movieId: string) => ['reviews', movieId] as const,
+    ratingSummary: (movieId: string) => ['reviews', movieId, 'summary'] as const,
+    userReview: (movieId: string, userId: string) => ['reviews', movieId, 'user', userId] as const,
+    collection: (collectionId: string, locale: string) => ['collection', collectionId, locale] as const,
+    tvShows: (query: string, locale: string) => ['tv-shows', query, locale] as const,
+    tvDetails: (tvId: string, locale: string) => ['tv', tvId, locale] as const,
+    tvSeason: (tvId: string, seasonNumber: number, locale: string) => ['tv', tvId, 'season', seasonNumber, locale] as const,
+    person: (personId: string, locale: string) => ['person', personId, locale] as const,
+    peopleSearch: (query: string, locale: string) => ['people', query, locale] as const,
+    genres: (locale: string) => ['genres', locale] as const,
+    trending: (window: TrendingWindow) => ['trending', window] as const,
+    allTrending: () => ['trending'] as const,
+    searchSuggestions: (prefix: string) => ['trending', 'suggestions', prefix] as const,
+    identities: (userId: string) => ['identities', userId] as const,
+}
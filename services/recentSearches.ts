@@ -0,0 +1,55 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { normalizeSearchTerm } from './trending'
+
+export const MAX_RECENT_SEARCHES = 10
+
+const storageKey = (userKey: string) => `recent-searches:${userKey}`
+
+// Newest first, without repeats that only differ in case or spacing
+const dedupe = (searches: string[]) => {
+    const seen = new Set<string>()
+
+    return searches.filter((search) => {
+        const key = normalizeSearchTerm(search)
+        if (!key || seen.has(key)) return false
+
+        seen.add(key)
+        return true
+    })
+}
+
+export const addRecentSearch = (searches: string[], search: string) =>
+    dedupe([search.trim(), ...searches]).slice(0, MAX_RECENT_SEARCHES)
+
+export const removeRecentSearch = (searches: string[], search: string) =>
+    searches.filter((item) => normalizeSearchTerm(item) !== normalizeSearchTerm(search))
+
+// The synced copy wins; anything searched offline since is kept after it
+export const mergeRecentSearches = (synced: string[], local: string[]) =>
+    dedupe([...synced, ...local]).slice(0, MAX_RECENT_SEARCHES)
+
+export const loadRecentSearches = async (userKey: string): Promise<string[]> => {
+    try {
+        const raw = await AsyncStorage.getItem(storageKey(userKey))
+        return raw ? JSON.parse(raw) : []
+    } catch {
+        return []
+    }
+}
+
+export const saveRecentSearches = (userKey: string, searches: string[]) =>
+    AsyncStorage.setItem(storageKey(userKey), JSON.stringify(searches)).catch(() => undefined)
+
+// The user's own matching searches come first, then popular ones they haven't made
+export const buildSuggestions = (query: string, history: string[], popular: string[], limit: number) => {
+    const needle = normalizeSearchTerm(query)
+    if (!needle) return []
+
+    const fromHistory = history.filter((search) => {
+        const normalized = normalizeSearchTerm(search)
+        return normalized.includes(needle) && normalized !== needle
+    })
+    const fromPopular = popular.filter((term) => term !== needle)
+
+    return dedupe([...fromHistory, ...fromPopular]).slice(0, limit)
+}
@@ -0,0 +1,43 @@
+import { backoffDelay, isAbortError, isRetryable } from './errors'
+
+export interface RetryOptions {
+    retry: number
+    retryDelay: number
+    signal: AbortSignal
+    // Which failures are worth another attempt; transient ones by default
+    shouldRetry?: (error: unknown) => boolean
+}
+
+export const abortError = () => {
+    const error = new Error('The request was aborted')
+    error.name = 'AbortError'
+    return error
+}
+
+export const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(abortError())
+
+    const onAbort = () => {
+        clearTimeout(timeoutId)
+        reject(abortError())
+    }
+    const timeoutId = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort)
+        resolve()
+    }, ms)
+
+    signal.addEventListener('abort', onAbort, { once: true })
+})
+
+export const withRetry = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions) => {
+    const { retry, retryDelay, signal, shouldRetry = isRetryable } = options
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task(signal)
+        } catch (error) {
+            if (signal.aborted || isAbortError(error) || attempt >= retry || !shouldRetry(error)) throw error
+            await wait(backoffDelay(error, attempt, retryDelay), signal)
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import { TranslationKey } from '../constants/translations'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export const TRENDING_WINDOWS: { value: TrendingWindow, labelKey: TranslationKey }[] = [
+    { value: 'day', labelKey: 'home.trendingToday' },
+    { value: 'week', labelKey: 'home.trendingWeek' },
+    { value: 'all', labelKey: 'home.trendingAllTime' },
+]
+
+export const DEFAULT_TRENDING_WINDOW: TrendingWindow = 'week'
+
+// "Batman", "batman " and "BATMAN" are the same search
+export const normalizeSearchTerm = (term: string) =>
+    term.trim().replace(/\s+/g, ' ').toLowerCase()
+
+// Days since the Unix epoch in UTC, so every device agrees on where a day starts
+export const dayNumber = (date: Date = new Date()) => Math.floor(date.getTime() / DAY)
+
+export const windowStartDay = (window: TrendingWindow, today: number = dayNumber()) => {
+    switch (window) {
+        case 'day':
+            return today
+        case 'week':
+            return today - 6
+        case 'all':
+            return null
+    }
+}
+
+// Most searched first
+export const rankSearchTerms = (terms: string[], limit: number) => {
+    const counts = new Map<string, number>()
+    terms.forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1))
+
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([term]) => term)
+}
+
+export const aggregateTrending = (events: TrendingEvent[], limit: number): TrendingMovie[] => {
+    const groups = new Map<string, TrendingEvent[]>()
+
+    events.forEach((event) => {
+        const key = `${event.media_type}:${event.movie_id}`
+        const group = groups.get(key)
+
+        if (group) group.push(event)
+        else groups.set(key, [event])
+    })
+
+    return [...groups.values()]
+        .map((group) => ({
+            searchTerm: rankSearchTerms(group.map((event) => event.search_term), 1)[0] ?? '',
+            media_type: group[0].media_type,
+            movie_id: group[0].movie_id,
+            title: group[0].title,
+            poster_path: group[0].poster_path,
+            count: group.length,
+        }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, limit)
+}
@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from "react";
+
+// A countdown in whole seconds for "send again" buttons. `remaining` is 0 once
+// the button may be used again.
+const useCooldown = () => {
+    const [remaining, setRemaining] = useState(0);
+
+    useEffect(() => {
+        if (remaining <= 0) return;
+
+        const timeoutId = setTimeout(() => setRemaining((seconds) => seconds - 1), 1000);
+        return () => clearTimeout(timeoutId);
+    }, [remaining]);
+
+    const start = useCallback((seconds: number) => setRemaining(seconds), []);
+
+    return { remaining, start };
+}
+
+export default useCooldown
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { isAbortError } from "./errors";
+import { QueryKey, fetchQuery, setQueryData } from "./queryCache";
+import useQuery, { UseQueryOptions, useStableKey } from "./useQuery";
+
+type PageFetcher<T> = (page: number, signal: AbortSignal) => Promise<PaginatedResponse<T>>
+
+// The pages loaded so far are cached together under `key`, so coming back to
+// a list restores everything that was already scrolled through
+const usePaginatedQuery = <T extends { id: number }>(
+    key: QueryKey,
+    fetchPage: PageFetcher<T>,
+    options: UseQueryOptions = {}
+) => {
+    const { enabled = true, persist } = options;
+
+    const stableKey = useStableKey(key);
+    const fetchPageRef = useRef(fetchPage);
+    fetchPageRef.current = fetchPage;
+
+    const {
+        data: pages,
+        loading,
+        error,
+        isOfflineCopy,
+        refetch
+    } = useQuery<PaginatedResponse<T>[]>(
+        stableKey,
+        async (signal) => [await fetchPageRef.current(1, signal)],
+        options
+    );
+
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [loadMoreError, setLoadMoreError] = useState<Error | null>(null);
+    const loadMoreController = useRef<AbortController | null>(null);
+
+    // A new list should not inherit the previous one's "load more" state
+    useEffect(() => {
+        setLoadingMore(false);
+        setLoadMoreError(null);
+        return () => loadMoreController.current?.abort();
+    }, [stableKey]);
+
+    const lastPage = pages?.[pages.length - 1];
+    const hasMore = !lastPage || lastPage.page < lastPage.total_pages;
+
+    const loadMore = useCallback(async () => {
+        if (!enabled || !lastPage || !hasMore || loadingMore) return;
+
+        const nextPage = lastPage.page + 1;
+        const controller = new AbortController();
+        loadMoreController.current = controller;
+
+        try {
+            setLoadingMore(true);
+            setLoadMoreError(null);
+
+            const result = await fetchQuery(
+                [...stableKey, 'page', nextPage],
+                (signal) => fetchPageRef.current(nextPage, signal),
+                { signal: controller.signal, persist }
+            );
+
+            // Ignore the page if the list was refreshed while it was loading
+            setQueryData<PaginatedResponse<T>[]>(stableKey, (current = []) =>
+                current[current.length - 1]?.page === nextPage - 1 ? [...current, result] : current
+            );
+        } catch (err) {
+            if (!isAbortError(err)) {
+                setLoadMoreError(err instanceof Error ? err : new Error('An error occurred'));
+            }
+        } finally {
+            if (loadMoreController.current === controller) {
+                setLoadingMore(false);
+            }
+        }
+    }, [stableKey, enabled, lastPage, hasMore, loadingMore, persist]);
+
+    // TMDB reshuffles popularity-sorted lists between requests, so the same
+    // movie can show up on two pages
+    const items = useMemo(() => {
+        const seenIds = new Set<number>();
+
+        return (pages ?? []).flatMap((page) => page.results).filter((item) => {
+            if (seenIds.has(item.id)) return false;
+            seenIds.add(item.id);
+            return true;
+        });
+    }, [pages]);
+
+    return {
+        items: enabled ? items : [],
+        page: enabled ? lastPage?.page ?? 0 : 0,
+        totalResults: lastPage?.total_results ?? 0,
+        loading: enabled && loading,
+        loadingMore,
+        error: enabled ? error : null,
+        loadMoreError: enabled ? loadMoreError : null,
+        hasMore,
+        isEnd: enabled && !!lastPage && !hasMore,
+        isOfflineCopy: enabled && isOfflineCopy,
+        loadMore,
+        refetch
+    };
+}
+
+export default usePaginatedQuery
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+import {
+    QueryFetcher,
+    QueryKey,
+    fetchQuery,
+    getQueryEntry,
+    hashKey,
+    isQueryStale,
+    subscribeToQuery
+} from "./queryCache";
+
+export interface UseQueryOptions {
+    enabled?: boolean
+    staleTime?: number
+    retry?: number
+    retryDelay?: number
+    // Keep an on-device copy for this long (ms) and fall back to it when offline
+    persist?: number
+}
+
+export const DEFAULT_STALE_TIME = 5 * 60 * 1000;
+
+// Keys are compared by value, so callers can build them inline. This hands
+// back one that only changes identity when its value does.
+export const useStableKey = (key: QueryKey): QueryKey => {
+    const hash = hashKey(key);
+    return useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+}
+
+const useQuery = <T>(key: QueryKey, fetcher: QueryFetcher<T>, options: UseQueryOptions = {}) => {
+    const { enabled = true, staleTime = DEFAULT_STALE_TIME, retry, retryDelay, persist } = options;
+
+    const stableKey = useStableKey(key);
+    const fetcherRef = useRef(fetcher);
+    fetcherRef.current = fetcher;
+
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const subscribe = useCallback(
+        (listener: () => void) => subscribeToQuery(stableKey, listener),
+        [stableKey]
+    );
+    useSyncExternalStore(subscribe, () => getQueryEntry(stableKey)?.version ?? 0);
+
+    const entry = getQueryEntry<T>(stableKey);
+
+    const refetch = useCallback(async () => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+
+        try {
+            await fetchQuery(stableKey, fetcherRef.current, { retry, retryDelay, persist, signal: controller.signal });
+        } catch {
+            // Failures are stored on the cache entry and surface through `error`
+        }
+    }, [stableKey, retry, retryDelay, persist]);
+
+    const invalidated = entry?.invalidated ?? false;
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        if (isQueryStale(stableKey, staleTime)) {
+            refetch();
+        }
+
+        // Leaving the screen or switching keys cancels our interest in the request
+        return () => controllerRef.current?.abort();
+    }, [stableKey, enabled, invalidated, staleTime, refetch]);
+
+    const data = entry?.data;
+    const isFetching = !!entry?.request;
+    const error = entry?.error ?? null;
+
+    return {
+        data: data ?? null,
+        error,
+        loading: enabled && data === undefined && (isFetching || !error),
+        isFetching,
+        isOfflineCopy: entry?.isOfflineCopy ?? false,
+        refetch
+    };
+}
+
+export default useQuery
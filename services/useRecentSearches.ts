@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react'
+import { useAuth } from './AuthContext'
+import { createLogger } from './logger'
+import { usePreferences } from './PreferencesContext'
+import {
+    addRecentSearch,
+    loadRecentSearches,
+    mergeRecentSearches,
+    removeRecentSearch,
+    saveRecentSearches
+} from './recentSearches'
+
+const log = createLogger('useRecentSearches')
+
+// Recent searches are kept on the device for everyone and also synced to the
+// account prefs when signed in, so they follow the user between devices
+const useRecentSearches = () => {
+    const { user } = useAuth()
+    const { preferences, updatePreferences } = usePreferences()
+    const [searches, setSearches] = useState<string[]>([])
+
+    const userKey = user?.$id ?? 'guest'
+    const synced = preferences.recentSearches
+
+    useEffect(() => {
+        let cancelled = false
+
+        loadRecentSearches(userKey).then((local) => {
+            if (!cancelled) setSearches(mergeRecentSearches(synced ?? [], local))
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [userKey, synced])
+
+    const commit = async (next: string[]) => {
+        setSearches(next)
+        await saveRecentSearches(userKey, next)
+
+        if (!user) return
+
+        try {
+            await updatePreferences({ recentSearches: next })
+        } catch (error) {
+            // The device copy is enough until the next successful sync
+            log.warn("Error syncing recent searches", error)
+        }
+    }
+
+    return {
+        searches,
+        addSearch: (search: string) => commit(addRecentSearch(searches, search)),
+        removeSearch: (search: string) => commit(removeRecentSearch(searches, search)),
+        clearSearches: () => commit([]),
+    }
+}
+
+export default useRecentSearches
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// How long typing has to pause before the query is searched
+export const TYPING_DELAY = 500;
+// How long results have to stay on screen before the search counts as made
+export const SETTLE_DELAY = 2000;
+
+interface SearchControllerOptions<T> {
+    initialQuery?: string;
+    // Runs at most once per query: when the user opens one of its results, or
+    // leaves its results on screen for SETTLE_DELAY (see useCommitWhenSettled)
+    onCommit: (query: string, result: T) => void;
+}
+
+// Owns the text box and decides which query is searched. Requests are keyed by
+// `query`, so moving on to a newer one drops interest in the old request and
+// the query cache aborts it; a late response can only land in its own entry and
+// never replaces what's shown for the current query.
+const useSearchController = <T>({ initialQuery = '', onCommit }: SearchControllerOptions<T>) => {
+    const [input, setInput] = useState(initialQuery);
+    const [query, setQuery] = useState(initialQuery.trim());
+
+    const queryRef = useRef(query);
+    queryRef.current = query;
+    const onCommitRef = useRef(onCommit);
+    onCommitRef.current = onCommit;
+    const committed = useRef<string | null>(null);
+
+    useEffect(() => {
+        const next = input.trim();
+        if (next === query) return;
+
+        const timeoutId = setTimeout(() => setQuery(next), TYPING_DELAY);
+        return () => clearTimeout(timeoutId);
+    }, [input, query]);
+
+    // Skips the debounce, e.g. when a suggestion is picked
+    const submit = useCallback((text: string) => {
+        setInput(text);
+        setQuery(text.trim());
+    }, []);
+
+    const commit = useCallback((forQuery: string, result: T) => {
+        if (!forQuery || forQuery !== queryRef.current || committed.current === forQuery) return;
+
+        committed.current = forQuery;
+        onCommitRef.current(forQuery, result);
+    }, []);
+
+    const openResult = useCallback((result: T) => commit(queryRef.current, result), [commit]);
+
+    return {
+        input,
+        setInput,
+        query,
+        submit,
+        commit,
+        openResult
+    };
+}
+
+// Results depend on the controller's query, so this runs after they're loaded.
+// Typing again or switching queries restarts the wait.
+export const useCommitWhenSettled = <T>(
+    { query, commit }: Pick<ReturnType<typeof useSearchController<T>>, 'query' | 'commit'>,
+    firstResult: T | undefined
+) => {
+    useEffect(() => {
+        if (!query || firstResult === undefined) return;
+
+        const timeoutId = setTimeout(() => commit(query, firstResult), SETTLE_DELAY);
+        return () => clearTimeout(timeoutId);
+    }, [query, firstResult, commit]);
+}
+
+export default useSearchController
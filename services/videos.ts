@@ -0,0 +1,32 @@
+// Only these hosts can be embedded in the in-app player
+const PLAYABLE_SITES = ['YouTube', 'Vimeo']
+
+const TYPE_RANK: Record<string, number> = {
+    Trailer: 0,
+    Teaser: 1,
+    Clip: 2,
+}
+
+const typeRank = (video: MovieVideo) => TYPE_RANK[video.type] ?? Object.keys(TYPE_RANK).length
+
+// Official trailers first, then teasers, then clips, then everything else.
+// Within each group, videos in the user's language and newer uploads win.
+export const rankVideos = (videos: MovieVideo[], language: string): MovieVideo[] =>
+    videos
+        .filter((video) => PLAYABLE_SITES.includes(video.site))
+        .sort((a, b) =>
+            typeRank(a) - typeRank(b) ||
+            Number(b.official) - Number(a.official) ||
+            Number(b.iso_639_1 === language) - Number(a.iso_639_1 === language) ||
+            (b.published_at || '').localeCompare(a.published_at || '')
+        )
+
+export const getEmbedUrl = (video: MovieVideo) =>
+    video.site === 'Vimeo'
+        ? `https://player.vimeo.com/video/${video.key}?autoplay=1`
+        : `https://www.youtube.com/embed/${video.key}?autoplay=1&playsinline=1&rel=0`
+
+export const getThumbnailUrl = (video: MovieVideo) =>
+    video.site === 'YouTube'
+        ? `https://img.youtube.com/vi/${video.key}/mqdefault.jpg`
+        : 'https://placehold.co/320x180/1a1a1a/ffffff.png'
@@ -0,0 +1,36 @@
+import { TranslationKey } from '../constants/translations'
+import { getDeviceLocale, regionOf } from './locale'
+
+export type ProviderGroupKey = 'flatrate' | 'rent' | 'buy'
+
+export interface ProviderGroup {
+    key: ProviderGroupKey
+    labelKey: TranslationKey
+    providers: WatchProvider[]
+}
+
+const GROUPS: { key: ProviderGroupKey, labelKey: TranslationKey }[] = [
+    { key: 'flatrate', labelKey: 'watch.stream' },
+    { key: 'rent', labelKey: 'watch.rent' },
+    { key: 'buy', labelKey: 'watch.buy' },
+]
+
+export const FALLBACK_REGION = 'US'
+
+export const getDeviceRegion = () => regionOf(getDeviceLocale()) ?? FALLBACK_REGION
+
+export const groupProviders = (availability: WatchProviderAvailability | undefined): ProviderGroup[] => {
+    if (!availability) return []
+
+    return GROUPS
+        .map(({ key, labelKey }) => ({
+            key,
+            labelKey,
+            providers: [...(availability[key] ?? [])].sort((a, b) => a.display_priority - b.display_priority),
+        }))
+        .filter((group) => group.providers.length > 0)
+}
+
+// Only subscription streaming counts; a movie you'd still have to rent isn't "on" a service
+export const isOnMyServices = (results: Record<string, WatchProviderAvailability>, myServices: MyServices) =>
+    (results[myServices.region]?.flatrate ?? []).some((provider) => myServices.providerIds.includes(provider.provider_id))
@@ -1,12 +1,50 @@
-import { Models } from 'react-native-appwrite'
+import { Models, OAuthProvider } from 'react-native-appwrite'
 
 export type User = Models.User<Models.Preferences>
 
+export interface UserProfile {
+    name: string
+    email: string
+    avatar?: string
+}
+
+// Where the app is in its sign-in lifecycle:
+//   initializing   - looking for a saved session at startup
+//   signedOut      - no session
+//   authenticating - a sign-in, sign-up or OAuth flow is in progress
+//   signedIn       - a user is available
+//   refreshing     - signed in and re-reading the account in the background
+//   error          - the session couldn't be checked, or signing in failed
+export type AuthState =
+    | { status: 'initializing' }
+    | { status: 'signedOut' }
+    | { status: 'authenticating' }
+    | { status: 'signedIn', user: User, profile: UserProfile }
+    | { status: 'refreshing', user: User, profile: UserProfile }
+    | { status: 'error', error: Error }
+
+export type AuthStatus = AuthState['status']
+
+export type OAuthLinkResult = 'linked' | 'otherAccount' | 'cancelled'
+
 export interface AuthContextType {
+    state: AuthState
+    status: AuthStatus
+    // Set while signed in or refreshing, null otherwise
     user: User | null
-    isLoading: boolean
-    login: (email: string, password: string) => Promise<void>
-    register: (email: string, password: string, name: string) => Promise<void>
-    logout: () => Promise<void>
+    userProfile: UserProfile | null
+    emailVerified: boolean
+    signIn: (email: string, password: string) => Promise<void>
+    signUp: (email: string, password: string, name: string) => Promise<void>
+    signInWithOAuth: (provider: OAuthProvider) => Promise<void>
+    // Finishes an email code or magic link sign-in
+    signInWithToken: (userId: string, secret: string) => Promise<void>
+    // Runs a provider's OAuth flow while signed in, so Appwrite can add it
+    // to the account as another identity. That only happens when the
+    // provider's email matches the account's; otherwise it resolves
+    // 'otherAccount' and the current session is kept.
+    linkOAuthProvider: (provider: OAuthProvider) => Promise<OAuthLinkResult>
+    signOut: () => Promise<void>
+    refreshAuthState: () => Promise<void>
+    sendVerificationEmail: () => Promise<void>
 }
-